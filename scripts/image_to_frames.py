@@ -0,0 +1,137 @@
+#!/usr/bin/env python3
+"""
+Image Frame Splitter
+Splits an uploaded image into one file per page: every frame of a multi-page
+TIFF becomes a page, PNG and JPEG files are a single page. Frames whose encoded
+size exceeds --max-bytes are downscaled until they fit.
+"""
+
+import argparse
+import json
+import os
+import sys
+
+import cv2
+
+# Each retry scales the frame by the square root of the size ratio, with some margin
+DOWNSCALE_MARGIN = 0.9
+# Frames are never shrunk below this share of their original width
+MIN_SCALE = 0.25
+
+
+def encode_frame(frame, image_format: str) -> bytes:
+    if image_format == "jpeg":
+        ok, data = cv2.imencode(".jpg", frame, [cv2.IMWRITE_JPEG_QUALITY, 95])
+    else:
+        ok, data = cv2.imencode(".png", frame)
+    if not ok:
+        raise ValueError("Failed to encode frame")
+    return data.tobytes()
+
+
+def encode_within_limit(frame, image_format: str, max_bytes: int) -> tuple:
+    """
+    Encode a frame, downscaling it until it fits max_bytes.
+    Returns the encoded bytes, the scale applied and whether the frame fits.
+    """
+    data = encode_frame(frame, image_format)
+    scale = 1.0
+    height, width = frame.shape[:2]
+
+    while max_bytes and len(data) > max_bytes and scale > MIN_SCALE:
+        scale = max(MIN_SCALE, scale * (max_bytes / len(data)) ** 0.5 * DOWNSCALE_MARGIN)
+        resized = cv2.resize(frame, (int(width * scale), int(height * scale)), interpolation=cv2.INTER_AREA)
+        data = encode_frame(resized, image_format)
+
+    return data, scale, not max_bytes or len(data) <= max_bytes
+
+
+def image_to_frames(image_path: str, output_dir: str, max_bytes: int = 0) -> dict:
+    """
+    Split an image into per-page files.
+
+    Args:
+        image_path: Path to a PNG, JPEG or (multi-page) TIFF image
+        output_dir: Directory to save the page images
+        max_bytes: Size limit per page image, 0 for no limit
+
+    Returns:
+        Dict with success status, image paths, their page numbers and scales
+    """
+    try:
+        os.makedirs(output_dir, exist_ok=True)
+
+        ok, frames = cv2.imreadmulti(image_path, flags=cv2.IMREAD_COLOR)
+        if not ok or not frames:
+            single = cv2.imread(image_path, cv2.IMREAD_COLOR)
+            if single is None:
+                raise ValueError(f"Could not read image: {image_path}")
+            frames = [single]
+
+        # JPEG photos stay JPEG; re-encoding them as PNG would inflate them several times over
+        is_jpeg = os.path.splitext(image_path)[1].lower() in (".jpg", ".jpeg")
+        image_format = "jpeg" if is_jpeg else "png"
+        extension = "jpg" if is_jpeg else "png"
+
+        image_paths = []
+        page_numbers = []
+        scales = []
+        oversized = []
+
+        for index, frame in enumerate(frames):
+            data, scale, fits = encode_within_limit(frame, image_format, max_bytes)
+
+            frame_path = os.path.join(output_dir, f"page-{index + 1}.{extension}")
+            with open(frame_path, "wb") as frame_file:
+                frame_file.write(data)
+
+            image_paths.append(frame_path)
+            page_numbers.append(index + 1)
+            scales.append(round(scale, 3))
+            if not fits:
+                oversized.append(index + 1)
+
+        return {
+            "success": True,
+            "pages": len(image_paths),
+            "image_paths": image_paths,
+            "page_numbers": page_numbers,
+            "scales": scales,
+            "oversized_pages": oversized
+        }
+
+    except Exception as e:
+        return {
+            "success": False,
+            "error": str(e)
+        }
+
+
+def main():
+    parser = argparse.ArgumentParser(add_help=False)
+    parser.add_argument("image_path")
+    parser.add_argument("output_dir")
+    parser.add_argument("--max-bytes", type=int, default=0)
+
+    try:
+        args = parser.parse_args()
+    except SystemExit:
+        print(json.dumps({
+            "success": False,
+            "error": "Usage: python image_to_frames.py <image_path> <output_dir> [--max-bytes N]"
+        }))
+        sys.exit(1)
+
+    if not os.path.exists(args.image_path):
+        print(json.dumps({
+            "success": False,
+            "error": f"Image file not found: {args.image_path}"
+        }))
+        sys.exit(1)
+
+    result = image_to_frames(args.image_path, args.output_dir, args.max_bytes)
+    print(json.dumps(result))
+
+
+if __name__ == "__main__":
+    main()
@@ -0,0 +1,140 @@
+#!/usr/bin/env python3
+"""
+PDF Text Layer Reader
+Reads the embedded text layer of each PDF page and decides whether it is
+usable, so that only image-only (scanned) pages need to be sent to OCR.
+"""
+
+import sys
+import os
+import json
+import fitz  # PyMuPDF
+
+# A page needs at least this many letters/digits to count as born-digital
+MIN_TEXT_CHARS = 25
+# Share of U+FFFD replacement characters above which the text layer is garbled
+MAX_GARBAGE_RATIO = 0.05
+# Pages mostly covered by images with little text are treated as scans
+SCAN_IMAGE_COVERAGE = 0.8
+SCAN_MAX_TEXT_CHARS = 200
+
+
+def image_coverage(page) -> float:
+    """Fraction of the page area covered by embedded images."""
+    page_area = abs(page.rect)
+    if page_area == 0:
+        return 0.0
+
+    covered = 0.0
+    for info in page.get_image_info():
+        bbox = fitz.Rect(info["bbox"]) & page.rect
+        covered += abs(bbox)
+
+    return min(covered / page_area, 1.0)
+
+
+def normalized_box(rect, page_rect) -> list:
+    """[left, top, width, height] as fractions of the page size."""
+    width = page_rect.width or 1
+    height = page_rect.height or 1
+    return [
+        round((rect[0] - page_rect.x0) / width, 5),
+        round((rect[1] - page_rect.y0) / height, 5),
+        round((rect[2] - rect[0]) / width, 5),
+        round((rect[3] - rect[1]) / height, 5)
+    ]
+
+
+def read_lines(page) -> list:
+    """Text lines in reading order, with normalized word and line boxes."""
+    lines = {}
+    for x0, y0, x1, y1, word, block_no, line_no, _ in page.get_text("words", sort=True):
+        line = lines.setdefault((block_no, line_no), {"words": [], "rect": fitz.Rect(x0, y0, x1, y1)})
+        line["words"].append({"text": word, "box": normalized_box((x0, y0, x1, y1), page.rect)})
+        line["rect"] |= fitz.Rect(x0, y0, x1, y1)
+
+    return [
+        {
+            "text": " ".join(word["text"] for word in line["words"]),
+            "box": normalized_box(line["rect"], page.rect),
+            "words": line["words"]
+        }
+        for line in lines.values()
+    ]
+
+
+def read_text_layer(pdf_path: str) -> dict:
+    """
+    Read the text layer of every page.
+
+    Args:
+        pdf_path: Path to the PDF file
+
+    Returns:
+        Dict with success status and per-page text and usability
+    """
+    try:
+        doc = fitz.open(pdf_path)
+        pages = []
+
+        for page_num in range(len(doc)):
+            page = doc.load_page(page_num)
+            text = page.get_text("text")
+            lines = read_lines(page)
+
+            text_chars = sum(1 for char in text if char.isalnum())
+            garbage_ratio = text.count("\ufffd") / max(len(text), 1)
+            coverage = image_coverage(page)
+
+            usable = (
+                text_chars >= MIN_TEXT_CHARS
+                and garbage_ratio <= MAX_GARBAGE_RATIO
+                and not (coverage >= SCAN_IMAGE_COVERAGE and text_chars < SCAN_MAX_TEXT_CHARS)
+            )
+
+            pages.append({
+                "page_number": page_num + 1,
+                "lines": lines,
+                "text_chars": text_chars,
+                "image_coverage": round(coverage, 3),
+                "usable": usable
+            })
+
+        doc.close()
+
+        return {
+            "success": True,
+            "pages": pages
+        }
+
+    except Exception as e:
+        return {
+            "success": False,
+            "error": str(e)
+        }
+
+
+def main():
+    if len(sys.argv) != 2:
+        print(json.dumps({
+            "success": False,
+            "error": "Usage: python pdf_text_layer.py <pdf_path>"
+        }))
+        sys.exit(1)
+
+    pdf_path = sys.argv[1]
+
+    # Validate PDF file exists
+    if not os.path.exists(pdf_path):
+        print(json.dumps({
+            "success": False,
+            "error": f"PDF file not found: {pdf_path}"
+        }))
+        sys.exit(1)
+
+    result = read_text_layer(pdf_path)
+    print(json.dumps(result))
+
+
+if __name__ == "__main__":
+    main()
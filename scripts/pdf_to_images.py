@@ -1,25 +1,67 @@
 #!/usr/bin/env python3
 """
 PDF to Images Converter
-Converts PDF pages to high-quality PNG images for OCR processing.
+Converts PDF pages to PNG or JPEG images for OCR processing.
+Pages whose image exceeds --max-bytes are re-rendered at a lower DPI until they fit.
 """
 
+import argparse
 import sys
 import os
 import json
 import fitz  # PyMuPDF
 from pathlib import Path
 
-def pdf_to_images(pdf_path: str, output_dir: str) -> dict:
+# Each retry scales the DPI by the square root of the size ratio, with some margin
+DOWNSCALE_MARGIN = 0.9
+
+def render_page(page, dpi: int, color_mode: str, image_format: str, jpeg_quality: int) -> bytes:
+    """Render one page to encoded image bytes."""
+    colorspace = fitz.csGRAY if color_mode == "grayscale" else fitz.csRGB
+    pix = page.get_pixmap(dpi=dpi, colorspace=colorspace, alpha=False)
+    if image_format == "jpeg":
+        return pix.tobytes(output="jpeg", jpg_quality=jpeg_quality)
+    return pix.tobytes(output="png")
+
+def render_within_limit(page, dpi: int, min_dpi: int, max_bytes: int, **render_args) -> tuple:
+    """
+    Render a page, lowering the DPI until the image fits max_bytes.
+    Returns the image bytes, the final DPI and whether the image fits.
+    """
+    data = render_page(page, dpi, **render_args)
+    while max_bytes and len(data) > max_bytes and dpi > min_dpi:
+        ratio = (max_bytes / len(data)) ** 0.5 * DOWNSCALE_MARGIN
+        dpi = max(min_dpi, min(dpi - 1, int(dpi * ratio)))
+        data = render_page(page, dpi, **render_args)
+    return data, dpi, not max_bytes or len(data) <= max_bytes
+
+def pdf_to_images(
+    pdf_path: str,
+    output_dir: str,
+    pages: list = None,
+    dpi: int = 144,
+    min_dpi: int = 72,
+    color_mode: str = "color",
+    image_format: str = "png",
+    jpeg_quality: int = 85,
+    max_bytes: int = 0
+) -> dict:
     """
     Convert PDF pages to images.
     
     Args:
         pdf_path: Path to the PDF file
         output_dir: Directory to save generated images
+        pages: Optional 1-based page numbers to convert (all pages when omitted)
+        dpi: Starting render resolution
+        min_dpi: Lowest resolution tried when downscaling oversized pages
+        color_mode: "color" or "grayscale"
+        image_format: "png" or "jpeg"
+        jpeg_quality: JPEG quality (1-100)
+        max_bytes: Image size limit per page, 0 for no limit
         
     Returns:
-        Dict with success status and image paths
+        Dict with success status, image paths, their page numbers and final DPIs
     """
     try:
         # Create output directory
@@ -27,26 +69,42 @@ def pdf_to_images(pdf_path: str, output_dir: str) -> dict:
         
         # Open PDF
         doc = fitz.open(pdf_path)
+        total_pages = len(doc)
         image_paths = []
+        page_numbers = []
+        dpis = []
+        oversized = []
+        extension = "jpg" if image_format == "jpeg" else "png"
         
         for page_num in range(len(doc)):
+            if pages and (page_num + 1) not in pages:
+                continue
+
             page = doc.load_page(page_num)
+            data, final_dpi, fits = render_within_limit(
+                page, dpi, min_dpi, max_bytes,
+                color_mode=color_mode, image_format=image_format, jpeg_quality=jpeg_quality
+            )
             
-            # Convert to image with high DPI for better OCR results (2x scale like Python example)
-            mat = fitz.Matrix(2, 2)  # 2x scale for better quality
-            pix = page.get_pixmap(matrix=mat)
-            
-            # Save as PNG
-            image_path = os.path.join(output_dir, f"page-{page_num + 1}.png")
-            pix.save(image_path)
+            image_path = os.path.join(output_dir, f"page-{page_num + 1}.{extension}")
+            with open(image_path, "wb") as image_file:
+                image_file.write(data)
             image_paths.append(image_path)
+            page_numbers.append(page_num + 1)
+            dpis.append(final_dpi)
+            if not fits:
+                oversized.append(page_num + 1)
             
         doc.close()
         
         return {
             "success": True,
             "pages": len(image_paths),
-            "image_paths": image_paths
+            "total_pages": total_pages,
+            "image_paths": image_paths,
+            "page_numbers": page_numbers,
+            "dpis": dpis,
+            "oversized_pages": oversized
         }
         
     except Exception as e:
@@ -55,16 +113,36 @@ def pdf_to_images(pdf_path: str, output_dir: str) -> dict:
             "error": str(e)
         }
 
+def parse_pages(value: str) -> list:
+    """Parse a comma-separated list of 1-based page numbers."""
+    return [int(page) for page in value.split(",") if page.strip()]
+
 def main():
-    if len(sys.argv) != 3:
+    parser = argparse.ArgumentParser(add_help=False)
+    parser.add_argument("pdf_path")
+    parser.add_argument("output_dir")
+    parser.add_argument("--pages", type=parse_pages, default=None)
+    parser.add_argument("--dpi", type=int, default=144)
+    parser.add_argument("--min-dpi", type=int, default=72)
+    parser.add_argument("--color", choices=["color", "grayscale"], default="color")
+    parser.add_argument("--format", choices=["png", "jpeg"], default="png")
+    parser.add_argument("--jpeg-quality", type=int, default=85)
+    parser.add_argument("--max-bytes", type=int, default=0)
+
+    try:
+        args = parser.parse_args()
+    except SystemExit:
         print(json.dumps({
             "success": False,
-            "error": "Usage: python pdf_to_images.py <pdf_path> <output_dir>"
+            "error": (
+                "Usage: python pdf_to_images.py <pdf_path> <output_dir> [--pages 1,2,5] [--dpi 144] "
+                "[--min-dpi 72] [--color color|grayscale] [--format png|jpeg] [--jpeg-quality 85] [--max-bytes N]"
+            )
         }))
         sys.exit(1)
     
-    pdf_path = sys.argv[1]
-    output_dir = sys.argv[2]
+    pdf_path = args.pdf_path
+    output_dir = args.output_dir
     
     # Validate PDF file exists
     if not os.path.exists(pdf_path):
@@ -75,7 +153,17 @@ def main():
         sys.exit(1)
     
     # Convert PDF to images
-    result = pdf_to_images(pdf_path, output_dir)
+    result = pdf_to_images(
+        pdf_path,
+        output_dir,
+        args.pages,
+        dpi=args.dpi,
+        min_dpi=args.min_dpi,
+        color_mode=args.color,
+        image_format=args.format,
+        jpeg_quality=args.jpeg_quality,
+        max_bytes=args.max_bytes
+    )
     print(json.dumps(result))
 
 if __name__ == "__main__":
@@ -0,0 +1,273 @@
+#!/usr/bin/env python3
+"""
+Image Preprocessor
+Cleans up page images before OCR: fixes orientation and skew, crops borders,
+removes noise, boosts contrast and binarizes. Images are rewritten in place.
+Cleaned images whose encoded size exceeds --max-bytes are downscaled until they fit.
+"""
+
+import argparse
+import json
+import os
+import re
+import shutil
+import subprocess
+import sys
+
+import cv2
+import numpy as np
+
+# Steps always run in this order, whatever order they were requested in
+STEP_ORDER = ["orientation", "deskew", "autocrop", "denoise", "contrast", "binarize"]
+
+# Skew below this is left alone; above the maximum the estimate is unreliable
+MIN_SKEW_DEGREES = 0.1
+MAX_SKEW_DEGREES = 15.0
+# Padding kept around the detected content when cropping borders
+CROP_MARGIN_PX = 10
+# Crops that would remove less than this share of the area are skipped
+MIN_CROP_RATIO = 0.02
+# Minimum Tesseract OSD confidence before a page is rotated
+MIN_ORIENTATION_CONFIDENCE = 2.0
+# Each retry scales the image by the square root of the size ratio, with some margin
+DOWNSCALE_MARGIN = 0.9
+# Images are never shrunk below this share of their width
+MIN_SCALE = 0.25
+
+
+def to_gray(image: np.ndarray) -> np.ndarray:
+    return image if image.ndim == 2 else cv2.cvtColor(image, cv2.COLOR_BGR2GRAY)
+
+
+def ink_mask(image: np.ndarray) -> np.ndarray:
+    """Foreground (dark) pixels as white on black."""
+    gray = to_gray(image)
+    _, mask = cv2.threshold(gray, 0, 255, cv2.THRESH_BINARY_INV | cv2.THRESH_OTSU)
+    return mask
+
+
+def background_value(image: np.ndarray):
+    return 255 if image.ndim == 2 else (255, 255, 255)
+
+
+def fix_orientation(image: np.ndarray, image_path: str) -> tuple:
+    """Rotate by 90/180/270 degrees using Tesseract's orientation detection."""
+    tesseract = os.environ.get("TESSERACT_PATH", "tesseract")
+    if not shutil.which(tesseract):
+        return image, False, "tesseract not available"
+
+    try:
+        output = subprocess.run(
+            [tesseract, image_path, "stdout", "--psm", "0"],
+            capture_output=True, text=True, timeout=60
+        ).stdout
+    except (subprocess.SubprocessError, OSError) as e:
+        return image, False, f"orientation detection failed: {e}"
+
+    rotate = re.search(r"Rotate:\s*(\d+)", output)
+    confidence = re.search(r"Orientation confidence:\s*([\d.]+)", output)
+    if not rotate:
+        return image, False, "orientation not detected"
+
+    degrees = int(rotate.group(1)) % 360
+    if degrees == 0:
+        return image, False, "already upright"
+    if confidence and float(confidence.group(1)) < MIN_ORIENTATION_CONFIDENCE:
+        return image, False, f"low confidence ({confidence.group(1)})"
+
+    rotations = {
+        90: cv2.ROTATE_90_CLOCKWISE,
+        180: cv2.ROTATE_180,
+        270: cv2.ROTATE_90_COUNTERCLOCKWISE
+    }
+    return cv2.rotate(image, rotations[degrees]), True, f"rotated {degrees}°"
+
+
+def deskew(image: np.ndarray) -> tuple:
+    """Straighten text lines using the minimum-area rectangle around the ink."""
+    coords = cv2.findNonZero(ink_mask(image))
+    if coords is None:
+        return image, False, "no content"
+
+    angle = cv2.minAreaRect(coords)[-1]
+    # OpenCV reports angles in [0, 90); map to the smallest correction
+    if angle > 45:
+        angle -= 90
+
+    if abs(angle) < MIN_SKEW_DEGREES:
+        return image, False, "no skew"
+    if abs(angle) > MAX_SKEW_DEGREES:
+        return image, False, f"skew estimate {angle:.1f}° out of range"
+
+    height, width = image.shape[:2]
+    matrix = cv2.getRotationMatrix2D((width / 2, height / 2), angle, 1.0)
+    rotated = cv2.warpAffine(
+        image, matrix, (width, height),
+        flags=cv2.INTER_CUBIC,
+        borderMode=cv2.BORDER_CONSTANT,
+        borderValue=background_value(image)
+    )
+    return rotated, True, f"rotated {angle:.2f}°"
+
+
+def autocrop(image: np.ndarray) -> tuple:
+    """Crop dark scanner borders and empty margins around the content."""
+    mask = ink_mask(image)
+    height, width = mask.shape
+
+    # Drop solid borders touching the edges (scanner bed, fax header bars)
+    contours, _ = cv2.findContours(mask, cv2.RETR_EXTERNAL, cv2.CHAIN_APPROX_SIMPLE)
+    for contour in contours:
+        x, y, w, h = cv2.boundingRect(contour)
+        touches_edge = x == 0 or y == 0 or x + w >= width or y + h >= height
+        if touches_edge and (w > width * 0.9 or h > height * 0.9):
+            cv2.drawContours(mask, [contour], -1, 0, thickness=cv2.FILLED)
+
+    coords = cv2.findNonZero(mask)
+    if coords is None:
+        return image, False, "no content"
+
+    x, y, w, h = cv2.boundingRect(coords)
+    x0, y0 = max(x - CROP_MARGIN_PX, 0), max(y - CROP_MARGIN_PX, 0)
+    x1, y1 = min(x + w + CROP_MARGIN_PX, width), min(y + h + CROP_MARGIN_PX, height)
+
+    if (x1 - x0) * (y1 - y0) > width * height * (1 - MIN_CROP_RATIO):
+        return image, False, "no border"
+
+    return image[y0:y1, x0:x1], True, f"cropped to {x1 - x0}x{y1 - y0}"
+
+
+def denoise(image: np.ndarray) -> tuple:
+    if image.ndim == 2:
+        return cv2.fastNlMeansDenoising(image, None, 10, 7, 21), True, None
+    return cv2.fastNlMeansDenoisingColored(image, None, 10, 10, 7, 21), True, None
+
+
+def boost_contrast(image: np.ndarray) -> tuple:
+    """Local contrast enhancement (CLAHE) on the lightness channel."""
+    clahe = cv2.createCLAHE(clipLimit=2.0, tileGridSize=(8, 8))
+    if image.ndim == 2:
+        return clahe.apply(image), True, None
+
+    lab = cv2.cvtColor(image, cv2.COLOR_BGR2LAB)
+    lightness, a, b = cv2.split(lab)
+    lab = cv2.merge((clahe.apply(lightness), a, b))
+    return cv2.cvtColor(lab, cv2.COLOR_LAB2BGR), True, None
+
+
+def binarize(image: np.ndarray) -> tuple:
+    """Adaptive thresholding, which copes with uneven lighting in photos."""
+    binary = cv2.adaptiveThreshold(
+        to_gray(image), 255, cv2.ADAPTIVE_THRESH_GAUSSIAN_C, cv2.THRESH_BINARY, 31, 15
+    )
+    return binary, True, None
+
+
+def fit_within_limit(image_path: str, max_bytes: int) -> tuple:
+    """
+    Downscale the image file in place until it fits max_bytes.
+    Returns the scale applied and whether the image fits.
+    """
+    size = os.path.getsize(image_path)
+    if not max_bytes or size <= max_bytes:
+        return 1.0, True
+
+    image = cv2.imread(image_path, cv2.IMREAD_UNCHANGED)
+    extension = os.path.splitext(image_path)[1] or ".png"
+    height, width = image.shape[:2]
+    scale = 1.0
+
+    while size > max_bytes and scale > MIN_SCALE:
+        scale = max(MIN_SCALE, scale * (max_bytes / size) ** 0.5 * DOWNSCALE_MARGIN)
+        resized = cv2.resize(image, (int(width * scale), int(height * scale)), interpolation=cv2.INTER_AREA)
+        ok, data = cv2.imencode(extension, resized)
+        if not ok:
+            raise ValueError(f"Failed to encode image: {image_path}")
+        size = len(data)
+        with open(image_path, "wb") as image_file:
+            image_file.write(data.tobytes())
+
+    return scale, size <= max_bytes
+
+
+def preprocess_image(image_path: str, steps: list, max_bytes: int = 0) -> dict:
+    """
+    Run the requested steps on one image and write it back in place.
+
+    Returns:
+        Dict with the image path, one record per requested step, the scale
+        applied to fit max_bytes and whether the image fits
+    """
+    image = cv2.imread(image_path, cv2.IMREAD_UNCHANGED)
+    if image is None:
+        raise ValueError(f"Could not read image: {image_path}")
+    if image.ndim == 3 and image.shape[2] == 4:
+        image = cv2.cvtColor(image, cv2.COLOR_BGRA2BGR)
+
+    records = []
+    for step in STEP_ORDER:
+        if step not in steps:
+            continue
+
+        if step == "orientation":
+            image, applied, detail = fix_orientation(image, image_path)
+        elif step == "deskew":
+            image, applied, detail = deskew(image)
+        elif step == "autocrop":
+            image, applied, detail = autocrop(image)
+        elif step == "denoise":
+            image, applied, detail = denoise(image)
+        elif step == "contrast":
+            image, applied, detail = boost_contrast(image)
+        else:
+            image, applied, detail = binarize(image)
+
+        record = {"step": step, "applied": applied}
+        if detail:
+            record["detail"] = detail
+        records.append(record)
+
+        # Orientation detection reads the file, so later steps see the latest image
+        if applied:
+            cv2.imwrite(image_path, image)
+
+    # Steps such as denoising can make the encoded image larger than the rendered one
+    scale, fits = fit_within_limit(image_path, max_bytes)
+    return {"image_path": image_path, "steps": records, "scale": scale, "fits": fits}
+
+
+def parse_steps(value: str) -> list:
+    steps = [step.strip() for step in value.split(",") if step.strip()]
+    unknown = [step for step in steps if step not in STEP_ORDER]
+    if unknown:
+        raise argparse.ArgumentTypeError(f"Unknown steps: {', '.join(unknown)}")
+    return steps
+
+
+def main():
+    parser = argparse.ArgumentParser(add_help=False)
+    parser.add_argument("image_paths", nargs="+")
+    parser.add_argument("--steps", type=parse_steps, required=True)
+    parser.add_argument("--max-bytes", type=int, default=0)
+
+    try:
+        args = parser.parse_args()
+    except SystemExit:
+        print(json.dumps({
+            "success": False,
+            "error": (
+                "Usage: python preprocess_images.py <image_path>... "
+                f"--steps {','.join(STEP_ORDER)} [--max-bytes 10485760]"
+            )
+        }))
+        sys.exit(1)
+
+    try:
+        results = [preprocess_image(path, args.steps, args.max_bytes) for path in args.image_paths]
+        print(json.dumps({"success": True, "results": results}))
+    except Exception as e:
+        print(json.dumps({"success": False, "error": str(e)}))
+
+
+if __name__ == "__main__":
+    main()
@@ -0,0 +1,35 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { GoogleDocumentAIService } from '@/lib/google-document-ai';
+
+export async function POST(request: NextRequest) {
+  try {
+    const { question, extractedText, structuredData } = await request.json();
+
+    if (!question) {
+      return NextResponse.json({ 
+        error: 'Question is required' 
+      }, { status: 400 });
+    }
+
+    if (!extractedText) {
+      return NextResponse.json({ 
+        error: 'Extracted text is required for Google Gemini Q&A method' 
+      }, { status: 400 });
+    }
+
+    const googleService = new GoogleDocumentAIService();
+    const answer = await googleService.answerQuestionWithGemini(extractedText, structuredData, question);
+
+    return NextResponse.json({
+      answer,
+      question,
+      method: 'google-gemini'
+    });
+  } catch (error) {
+    console.error('Google Gemini Q&A API Error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to answer question with Google Gemini' },
+      { status: 500 }
+    );
+  }
+}
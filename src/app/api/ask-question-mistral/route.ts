@@ -4,7 +4,7 @@ import { MistralOCRService } from '@/lib/mistral-ocr';
 export async function POST(request: NextRequest) {
   try {
     const body = await request.json();
-    const { question, fileId, signedUrl, filename } = body;
+    const { question, fileId } = body;
 
     if (!question) {
       return NextResponse.json({ 
@@ -12,21 +12,22 @@ export async function POST(request: NextRequest) {
       }, { status: 400 });
     }
 
-    if (!fileId || !signedUrl || !filename) {
+    if (!fileId) {
       return NextResponse.json({ 
-        error: 'File information (fileId, signedUrl, filename) is required' 
+        error: 'File id (fileId) is required' 
       }, { status: 400 });
     }
 
     // Initialize Mistral OCR service
     const mistralService = new MistralOCRService();
 
-    // Create file info object
-    const fileInfo = {
-      id: fileId,
-      filename: filename,
-      signedUrl: signedUrl
-    };
+    // Signed URLs expire, so a fresh one is requested for every question
+    const fileInfo = await mistralService.getFileInfo(fileId);
+    if (!fileInfo) {
+      return NextResponse.json({ 
+        error: `Mistral file ${fileId} no longer exists; it may have been deleted after the retention period. Extract the document again.` 
+      }, { status: 404 });
+    }
 
     // Use Mistral's document Q&A capability with uploaded file
     const answer = await mistralService.askQuestionAboutUploadedFile(fileInfo, question);
@@ -35,7 +36,7 @@ export async function POST(request: NextRequest) {
       answer,
       question,
       method: 'mistral-direct',
-      filename: filename,
+      filename: fileInfo.filename,
       fileId: fileId
     });
 
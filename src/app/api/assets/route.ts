@@ -0,0 +1,30 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { readAsset } from '@/lib/document-assets';
+
+// Images extracted from documents, by the id given in the extraction result's `assets`
+export async function GET(request: NextRequest) {
+  try {
+    const id = request.nextUrl.searchParams.get('id');
+    if (!id) {
+      return NextResponse.json({ error: 'Asset id is required' }, { status: 400 });
+    }
+
+    const asset = await readAsset(id);
+    if (!asset) {
+      return NextResponse.json({ error: `Unknown asset: ${id}` }, { status: 404 });
+    }
+
+    return new NextResponse(new Uint8Array(asset.data), {
+      headers: {
+        'Content-Type': asset.mimeType,
+        'Cache-Control': 'private, max-age=86400, immutable'
+      }
+    });
+  } catch (error) {
+    console.error('Assets API Error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to load asset' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,81 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { API_CONFIG } from '@/lib/constants';
+import { getExtractionJob, subscribeToExtractionJob } from '@/lib/extraction-jobs';
+import type { ExtractionJobMessage } from '@/lib/extraction-jobs';
+
+// Server-Sent Events for one job: its state and the progress so far, then live progress until it finishes
+export async function GET(request: NextRequest) {
+  try {
+    const id = request.nextUrl.searchParams.get('id');
+    if (!id) {
+      return NextResponse.json({ error: 'Job id is required' }, { status: 400 });
+    }
+
+    const job = await getExtractionJob(id);
+    if (!job) {
+      return NextResponse.json({ error: `Unknown extraction job: ${id}` }, { status: 404 });
+    }
+
+    const encoder = new TextEncoder();
+    let closed = false;
+    let unsubscribe: (() => void) | undefined;
+    let keepAlive: ReturnType<typeof setInterval> | undefined;
+
+    const stop = () => {
+      closed = true;
+      clearInterval(keepAlive);
+      unsubscribe?.();
+    };
+
+    const stream = new ReadableStream<Uint8Array>({
+      async start(controller) {
+        const write = (chunk: string) => {
+          if (closed) return;
+          try {
+            controller.enqueue(encoder.encode(chunk));
+          } catch (error) {
+            // The client went away without the stream being cancelled
+            console.error(`Stopped streaming extraction job ${id}:`, error);
+            stop();
+          }
+        };
+
+        const send = (message: ExtractionJobMessage) => {
+          write(`data: ${JSON.stringify(message)}\n\n`);
+          if (!closed && message.type === 'job' && (message.job.status === 'succeeded' || message.job.status === 'failed')) {
+            stop();
+            controller.close();
+          }
+        };
+
+        unsubscribe = subscribeToExtractionJob(id, send);
+
+        // Not running here: only its final state is left to report
+        if (!unsubscribe) {
+          send({ type: 'job', job: await getExtractionJob(id) || job });
+        } else if (closed) {
+          unsubscribe();
+        } else {
+          keepAlive = setInterval(() => write(': keepalive\n\n'), API_CONFIG.EXTRACTION_JOBS.EVENTS_KEEPALIVE_MS);
+        }
+      },
+      cancel() {
+        stop();
+      }
+    });
+
+    return new Response(stream, {
+      headers: {
+        'Content-Type': 'text/event-stream',
+        'Cache-Control': 'no-cache, no-transform',
+        Connection: 'keep-alive'
+      }
+    });
+  } catch (error) {
+    console.error('Extract Jobs API Error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to stream extraction job' },
+      { status: 500 }
+    );
+  }
+}
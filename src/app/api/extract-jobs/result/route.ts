@@ -0,0 +1,37 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getExtractionJob, getExtractionJobResult } from '@/lib/extraction-jobs';
+
+// The extraction of a finished job, in the same shape POST /api/extract responds with
+export async function GET(request: NextRequest) {
+  try {
+    const id = request.nextUrl.searchParams.get('id');
+    if (!id) {
+      return NextResponse.json({ error: 'Job id is required' }, { status: 400 });
+    }
+
+    const job = await getExtractionJob(id);
+    if (!job) {
+      return NextResponse.json({ error: `Unknown extraction job: ${id}` }, { status: 404 });
+    }
+
+    if (job.status !== 'succeeded') {
+      return NextResponse.json(
+        { error: job.status === 'failed' ? job.error : `Extraction job is still ${job.status}`, job },
+        { status: 409 }
+      );
+    }
+
+    const result = await getExtractionJobResult(id);
+    if (!result) {
+      return NextResponse.json({ error: `Result of extraction job ${id} is no longer available` }, { status: 404 });
+    }
+
+    return NextResponse.json(result);
+  } catch (error) {
+    console.error('Extract Jobs API Error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to load extraction job result' },
+      { status: 500 }
+    );
+  }
+}
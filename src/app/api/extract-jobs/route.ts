@@ -0,0 +1,45 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prepareExtraction } from '@/lib/extraction-request';
+import { getExtractionJob, submitExtractionJob } from '@/lib/extraction-jobs';
+
+// Same form as POST /api/extract; the extraction runs in the background
+export async function POST(request: NextRequest) {
+  try {
+    const extraction = await prepareExtraction(await request.formData());
+    if ('error' in extraction) {
+      return NextResponse.json({ error: extraction.error }, { status: 400 });
+    }
+
+    const job = await submitExtractionJob(extraction);
+    return NextResponse.json({ jobId: job.id, job }, { status: 202 });
+  } catch (error) {
+    console.error('Extract Jobs API Error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to submit extraction job' },
+      { status: 500 }
+    );
+  }
+}
+
+// Job state, pages completed and per-page errors
+export async function GET(request: NextRequest) {
+  try {
+    const id = request.nextUrl.searchParams.get('id');
+    if (!id) {
+      return NextResponse.json({ error: 'Job id is required' }, { status: 400 });
+    }
+
+    const job = await getExtractionJob(id);
+    if (!job) {
+      return NextResponse.json({ error: `Unknown extraction job: ${id}` }, { status: 404 });
+    }
+
+    return NextResponse.json({ job });
+  } catch (error) {
+    console.error('Extract Jobs API Error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to load extraction job' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,80 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { GoogleDocumentAIService } from '@/lib/google-document-ai';
+import { API_CONFIG } from '@/lib/constants';
+import { parsePageSelection, selectDocumentPages } from '@/lib/page-selection';
+import { getResultCacheKey, withResultCache } from '@/lib/result-cache';
+
+export async function POST(request: NextRequest) {
+  try {
+    const formData = await request.formData();
+    const file = formData.get('pdf') as File;
+    const pageSelection = (formData.get('pages') as string | null)?.trim() || undefined;
+
+    if (!file) {
+      return NextResponse.json({ error: 'No file provided' }, { status: 400 });
+    }
+
+    // Check file type - Google Document AI supports PDF and images including TIFF
+    const allowedTypes = ['application/pdf', 'image/jpeg', 'image/jpg', 'image/png', 'image/gif', 'image/webp', 'image/tiff'];
+    if (!allowedTypes.includes(file.type)) {
+      return NextResponse.json({ 
+        error: 'File must be a PDF or image (JPEG, PNG, GIF, WebP, TIFF)' 
+      }, { status: 400 });
+    }
+
+    // Check file size limit (20MB for Google Document AI)
+    const MAX_FILE_SIZE = API_CONFIG.GOOGLE.MAX_FILE_SIZE;
+    if (file.size > MAX_FILE_SIZE) {
+      return NextResponse.json({ 
+        error: `File size (${Math.round(file.size / 1024 / 1024)}MB) exceeds the 20MB limit for Google Document AI processing` 
+      }, { status: 400 });
+    }
+
+    console.log(`Processing file with Google Document AI: ${file.name}, Type: ${file.type}, Size: ${Math.round(file.size / 1024)}KB`);
+
+    if (pageSelection) {
+      try {
+        parsePageSelection(pageSelection);
+      } catch (error) {
+        return NextResponse.json({ error: error instanceof Error ? error.message : 'Invalid page selection' }, { status: 400 });
+      }
+    }
+
+    const bytes = await file.arrayBuffer();
+    const buffer = Buffer.from(bytes);
+
+    // Validate PDF header
+    if (file.type === 'application/pdf' && buffer.subarray(0, 4).toString() !== '%PDF') {
+      return NextResponse.json({ 
+        error: 'Invalid PDF format - file does not have valid PDF header' 
+      }, { status: 400 });
+    }
+
+    const selectedPages = await selectDocumentPages(buffer, file.type, pageSelection);
+
+    const { value: result, cached, cachedAt } = await withResultCache(
+      getResultCacheKey(buffer, 'route:extract-text-google', { pages: selectedPages }),
+      () => new GoogleDocumentAIService().processDocument(buffer, file.name, selectedPages)
+    );
+
+    return NextResponse.json({ 
+      text: result.text,
+      entities: result.entities,
+      keyValuePairs: result.keyValuePairs,
+      formFields: [],
+      tables: result.tables,
+      totalPages: result.totalPages,
+      filename: file.name,
+      size: file.size,
+      processor: result.processorType,
+      cached,
+      cachedAt
+    });
+  } catch (error) {
+    console.error('Google Document AI API Error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to process file with Google Document AI' },
+      { status: 500 }
+    );
+  }
+}
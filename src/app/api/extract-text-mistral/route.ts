@@ -1,10 +1,14 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { MistralOCRService } from '@/lib/mistral-ocr';
+import { hasUploadedFileExpired } from '@/lib/ocr-provider';
+import { parsePageSelection, selectDocumentPages } from '@/lib/page-selection';
+import { getResultCacheKey, withResultCache } from '@/lib/result-cache';
 
 export async function POST(request: NextRequest) {
   try {
     const formData = await request.formData();
     const file = formData.get('pdf') as File;
+    const pageSelection = (formData.get('pages') as string | null)?.trim() || undefined;
 
     if (!file) {
       return NextResponse.json({ error: 'No file provided' }, { status: 400 });
@@ -28,21 +32,44 @@ export async function POST(request: NextRequest) {
 
     console.log(`Processing file with Mistral OCR: ${file.name}, Type: ${file.type}, Size: ${Math.round(file.size / 1024)}KB`);
 
+    if (pageSelection) {
+      try {
+        parsePageSelection(pageSelection);
+      } catch (error) {
+        return NextResponse.json({ error: error instanceof Error ? error.message : 'Invalid page selection' }, { status: 400 });
+      }
+    }
+
     const bytes = await file.arrayBuffer();
     const buffer = Buffer.from(bytes);
 
     const mistralOCRService = new MistralOCRService();
     
-    // Use the new processDocument method that returns both text and file info
-    const result = await mistralOCRService.processDocument(buffer, file.name);
+    const selectedPages = await selectDocumentPages(buffer, file.type, pageSelection);
+
+    // Use the new processDocument method that returns both text and file info.
+    // A cached result is only served while its uploaded file still exists.
+    const { value: result, cached, cachedAt } = await withResultCache(
+      getResultCacheKey(buffer, 'route:extract-text-mistral', { pages: selectedPages }),
+      () => mistralOCRService.processDocument(buffer, file.name, selectedPages),
+      async cachedResult => !hasUploadedFileExpired(cachedResult.fileInfo)
+        && await mistralOCRService.getFileInfo(cachedResult.fileInfo.id) !== undefined
+    );
 
     return NextResponse.json({ 
       text: result.text,
+      pages: result.pages,
+      keyValuePairs: result.keyValuePairs,
+      tables: result.tables,
+      assets: result.assets,
+      totalPages: result.totalPages,
       filename: file.name,
       size: file.size,
       processor: 'Mistral OCR',
       fileId: result.fileInfo.id,
-      fileInfo: result.fileInfo
+      fileInfo: result.fileInfo,
+      cached,
+      cachedAt
     });
   } catch (error) {
     console.error('Mistral OCR API Error:', error);
@@ -0,0 +1,24 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { listOcrProviders } from '@/lib/providers/registry';
+import { prepareExtraction, runExtraction } from '@/lib/extraction-request';
+
+export async function GET() {
+  return NextResponse.json({ providers: listOcrProviders() });
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const extraction = await prepareExtraction(await request.formData());
+    if ('error' in extraction) {
+      return NextResponse.json({ error: extraction.error }, { status: 400 });
+    }
+
+    return NextResponse.json(await runExtraction(extraction));
+  } catch (error) {
+    console.error('Extract API Error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to process document' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,39 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { MistralOCRService } from '@/lib/mistral-ocr';
+
+// Documents uploaded to Mistral for OCR and direct Q&A
+export async function GET() {
+  try {
+    const mistralService = new MistralOCRService();
+    return NextResponse.json({ files: await mistralService.listFiles() });
+  } catch (error) {
+    console.error('Mistral Files API Error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to list Mistral files' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(request: NextRequest) {
+  try {
+    const id = request.nextUrl.searchParams.get('id');
+    if (!id) {
+      return NextResponse.json({ error: 'File id is required' }, { status: 400 });
+    }
+
+    // Only files this app uploaded can be deleted, like the listing and the retention sweep
+    const mistralService = new MistralOCRService();
+    if (!await mistralService.getUploadedFile(id) || !await mistralService.deleteFile(id)) {
+      return NextResponse.json({ error: `Unknown Mistral file: ${id}` }, { status: 404 });
+    }
+
+    return NextResponse.json({ deleted: id });
+  } catch (error) {
+    console.error('Mistral Files API Error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to delete Mistral file' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,71 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { parseOcrOptions } from '@/lib/ocr-provider';
+import { parsePageSelection, selectDocumentPages } from '@/lib/page-selection';
+import { renderPageImages } from '@/lib/pdf-images';
+
+const SUPPORTED_TYPES = ['application/pdf', 'image/png', 'image/jpeg', 'image/jpg', 'image/tiff'];
+
+// Renders the uploaded document's pages for the page viewer. Takes the same
+// `pages`, raster and `preprocess` fields as the extraction, plus `renderDpis`
+// (a JSON object of page number to the result's `renderDpi`), so boxes line up
+// with the images. Responds with one URL per page rather than the image data.
+export async function POST(request: NextRequest) {
+  try {
+    const formData = await request.formData();
+    const file = formData.get('file') as File;
+
+    if (!file) {
+      return NextResponse.json({ error: 'No file provided' }, { status: 400 });
+    }
+
+    if (!SUPPORTED_TYPES.includes(file.type)) {
+      return NextResponse.json({ error: `Cannot render pages for file type ${file.type || 'unknown'}` }, { status: 400 });
+    }
+
+    const options = parseOcrOptions(formData);
+    if (options.pages) {
+      try {
+        parsePageSelection(options.pages);
+      } catch (error) {
+        return NextResponse.json({ error: error instanceof Error ? error.message : 'Invalid page selection' }, { status: 400 });
+      }
+    }
+
+    let renderDpis: Record<number, number> | undefined;
+    const renderDpisField = formData.get('renderDpis') as string | null;
+    if (renderDpisField) {
+      try {
+        renderDpis = JSON.parse(renderDpisField);
+      } catch {
+        renderDpis = undefined;
+      }
+      if (!renderDpis || typeof renderDpis !== 'object' || Object.values(renderDpis).some(dpi => typeof dpi !== 'number')) {
+        return NextResponse.json({ error: 'renderDpis must be a JSON object of page numbers to DPI' }, { status: 400 });
+      }
+    }
+
+    const buffer = Buffer.from(await file.arrayBuffer());
+
+    if (file.type === 'application/pdf' && buffer.subarray(0, 4).toString() !== '%PDF') {
+      return NextResponse.json({ 
+        error: 'Invalid PDF format - file does not have valid PDF header' 
+      }, { status: 400 });
+    }
+
+    const pages = await renderPageImages(buffer, file.name, file.type, {
+      pages: await selectDocumentPages(buffer, file.type, options.pages),
+      pageSelection: options.pages,
+      raster: options.raster,
+      preprocess: options.preprocess,
+      renderDpis
+    });
+
+    return NextResponse.json({ pages });
+  } catch (error) {
+    console.error('Page Images API Error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to render pages' },
+      { status: 500 }
+    );
+  }
+}
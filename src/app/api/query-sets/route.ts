@@ -0,0 +1,66 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { deleteQuerySet, isBuiltInQuerySet, listQuerySets, saveQuerySet, validateQuerySetInput } from '@/lib/query-sets';
+import type { QuerySetInput } from '@/lib/query-sets';
+
+// Saved Textract query sets, reusable per document type
+export async function GET() {
+  try {
+    return NextResponse.json({ querySets: await listQuerySets() });
+  } catch (error) {
+    console.error('Query Sets API Error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to load query sets' },
+      { status: 500 }
+    );
+  }
+}
+
+// Body: { id?, name, documentType, queries: [{ text, alias? }] }; an existing id replaces that set
+export async function POST(request: NextRequest) {
+  try {
+    // Malformed JSON is rejected by the validation below
+    const input = await request.json().catch(() => undefined) as QuerySetInput;
+
+    try {
+      validateQuerySetInput(input);
+    } catch (error) {
+      return NextResponse.json({ error: error instanceof Error ? error.message : 'Invalid query set' }, { status: 400 });
+    }
+
+    const querySet = await saveQuerySet(input);
+    console.log(`Saved query set "${querySet.name}" (${querySet.queries.length} queries)`);
+
+    return NextResponse.json({ querySet });
+  } catch (error) {
+    console.error('Query Sets API Error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to save query set' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(request: NextRequest) {
+  try {
+    const id = request.nextUrl.searchParams.get('id');
+    if (!id) {
+      return NextResponse.json({ error: 'Query set id is required' }, { status: 400 });
+    }
+
+    if (isBuiltInQuerySet(id)) {
+      return NextResponse.json({ error: `Built-in query set "${id}" cannot be deleted` }, { status: 400 });
+    }
+
+    if (!await deleteQuerySet(id)) {
+      return NextResponse.json({ error: `Unknown query set: ${id}` }, { status: 404 });
+    }
+
+    return NextResponse.json({ deleted: id });
+  } catch (error) {
+    console.error('Query Sets API Error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to delete query set' },
+      { status: 500 }
+    );
+  }
+}
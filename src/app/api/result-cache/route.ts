@@ -0,0 +1,16 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { purgeResultCache } from '@/lib/result-cache';
+
+// Clears cached extraction results; `?expired=true` keeps the ones still fresh
+export async function DELETE(request: NextRequest) {
+  try {
+    const expiredOnly = request.nextUrl.searchParams.get('expired') === 'true';
+    return NextResponse.json({ purged: await purgeResultCache(expiredOnly) });
+  } catch (error) {
+    console.error('Result Cache API Error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to purge result cache' },
+      { status: 500 }
+    );
+  }
+}
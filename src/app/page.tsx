@@ -1,29 +1,452 @@
 "use client";
 
-import { useState } from "react";
+import { useEffect, useMemo, useState } from "react";
+import { PageViewer } from "@/components/page-viewer";
+import type { HighlightRegion } from "@/components/page-viewer";
+import { PREPROCESS_STEPS, flattenEntities, getHeaderRowCount, unionBoundingBoxes } from "@/lib/ocr-provider";
+import type { ExtractionJob, ExtractionJobMessage } from "@/lib/extraction-jobs";
+import type { PageImageData } from "@/lib/pdf-images";
+import type { QuerySet } from "@/lib/query-sets";
+import type { DocumentAsset, DocumentPage, PageExtractionCounts, PartialPageResult, ExpenseLineItem, NormalizedEntityValue, ExpenseSummary, IdentitySummary, OcrOptionName, OcrProviderDescriptor, PreprocessStep, RasterColorMode, RasterFormat, LayoutElement, SelectionStatus, StructuredData, TableCell, TableData } from "@/lib/ocr-provider";
+
+const PREPROCESS_STEP_LABELS: Record<PreprocessStep, string> = {
+  orientation: 'Fix orientation',
+  deskew: 'Deskew',
+  autocrop: 'Crop borders',
+  denoise: 'Remove noise',
+  contrast: 'Boost contrast',
+  binarize: 'Binarize'
+};
+
+const EXPENSE_SUMMARY_LABELS: Record<keyof ExpenseSummary, string> = {
+  vendorName: 'Vendor',
+  vendorAddress: 'Vendor address',
+  receiverName: 'Bill to',
+  invoiceId: 'Invoice / receipt #',
+  invoiceDate: 'Date',
+  dueDate: 'Due date',
+  subtotal: 'Subtotal',
+  tax: 'Tax',
+  total: 'Total',
+  amountDue: 'Amount due',
+  currency: 'Currency'
+};
+
+const IDENTITY_SUMMARY_LABELS: Record<keyof IdentitySummary, string> = {
+  name: 'Name',
+  documentNumber: 'Document number',
+  dateOfBirth: 'Date of birth',
+  dateOfIssue: 'Date of issue',
+  expirationDate: 'Expiration date',
+  address: 'Address',
+  mrz: 'MRZ'
+};
+
+// Running extraction job, kept so a reloaded page can reattach to it
+const ACTIVE_JOB_STORAGE_KEY = 'activeExtractionJob';
+
+interface ActiveJob {
+  jobId: string;
+  fileName: string;
+  providerId: string;
+}
+
+interface PageProgress {
+  pageNumber: number;
+  status: 'queued' | 'running' | 'done' | 'failed';
+  counts?: PageExtractionCounts;
+  error?: string;
+}
+
+const PAGE_PROGRESS_COLORS: Record<PageProgress['status'], string> = {
+  queued: 'bg-gray-600',
+  running: 'bg-blue-500 animate-pulse',
+  done: 'bg-green-500',
+  failed: 'bg-red-500'
+};
+
+function describePageProgress({ pageNumber, status, counts, error }: PageProgress): string {
+  if (status === 'done' && counts) {
+    return `Page ${pageNumber}: ${counts.lines} lines, ${counts.characters} characters, ${counts.keyValuePairs} key-value pairs, ${counts.tables} tables`;
+  }
+  return error || `Page ${pageNumber}: ${status}`;
+}
+
+// Items recovered from markdown carry no provider score
+function describeConfidence(confidence?: number): string {
+  return confidence === undefined ? 'No confidence score' : `${Math.round(confidence)}% confidence`;
+}
+
+// Results tab that lists the item behind a highlight region id
+const REGION_TABS: Record<string, string> = {
+  word: 'text',
+  kv: 'keyvalue',
+  entity: 'entities',
+  cell: 'tables',
+  query: 'queries',
+  expense: 'expenses',
+  image: 'images'
+};
+
+// Line item columns in order of first appearance, e.g. ITEM, QUANTITY, PRICE
+function getLineItemColumns(lineItems: ExpenseLineItem[]): string[] {
+  return Array.from(new Set(lineItems.flatMap(lineItem => lineItem.fields.map(field => field.type))));
+}
+
+// Typed form of a normalized entity value, falling back to the processor's text
+function formatNormalizedValue(value: NormalizedEntityValue): string {
+  if (value.money) {
+    const amount = value.money.amount.toFixed(2);
+    return value.money.currencyCode ? `${amount} ${value.money.currencyCode}` : amount;
+  }
+  if (value.address) {
+    const { addressLines, locality, administrativeArea, postalCode, regionCode } = value.address;
+    return [...addressLines, [locality, administrativeArea, postalCode].filter(part => part).join(' '), regionCode]
+      .filter(part => part)
+      .join(', ');
+  }
+  return value.date || value.text;
+}
+
+function SelectionMark({ status }: { status: SelectionStatus }) {
+  const selected = status === 'selected';
+  return (
+    <span
+      title={selected ? 'Checked' : 'Not checked'}
+      className={`inline-flex items-center justify-center w-5 h-5 mr-2 align-middle rounded border-2 text-xs font-bold ${
+        selected ? 'border-blue-300 bg-blue-500 text-white' : 'border-gray-400'
+      }`}
+    >
+      {selected ? '✓' : ''}
+    </span>
+  );
+}
+
+// Cells to draw per table row: merged cells once with their spans, blanks where the provider returned no cell
+function getTableGrid(table: TableData): TableCell[][] {
+  const cells: TableCell[] = table.cells && table.cells.length > 0
+    ? table.cells
+    : table.rows.flatMap((row, rowIndex) => row.map((text, columnIndex) => ({ rowIndex, columnIndex, text, confidence: table.confidence })));
+
+  const anchors = new Map(cells.map(cell => [`${cell.rowIndex}-${cell.columnIndex}`, cell]));
+  const covered = new Set<string>();
+  cells.forEach(cell => {
+    for (let row = cell.rowIndex; row < cell.rowIndex + (cell.rowSpan || 1); row++) {
+      for (let column = cell.columnIndex; column < cell.columnIndex + (cell.columnSpan || 1); column++) {
+        covered.add(`${row}-${column}`);
+      }
+    }
+  });
+
+  return table.rows.map((row, rowIndex) => row.flatMap((_, columnIndex) => {
+    const key = `${rowIndex}-${columnIndex}`;
+    const cell = anchors.get(key);
+    if (cell) {
+      return [cell];
+    }
+    return covered.has(key) ? [] : [{ rowIndex, columnIndex, text: '', confidence: 0 }];
+  }));
+}
 
 export default function PDFTextractDemo() {
   const [extractedText, setExtractedText] = useState<string>("");
   const [question, setQuestion] = useState<string>("");
   const [answer, setAnswer] = useState<string>("");
   const [isExtracting, setIsExtracting] = useState(false);
+  const [pageProgress, setPageProgress] = useState<PageProgress[]>([]);
+  const [jobStatusMessage, setJobStatusMessage] = useState<string | null>(null);
   const [isAnswering, setIsAnswering] = useState(false);
   const [fileName, setFileName] = useState<string>("");
   const [processor, setProcessor] = useState<string>("");
-  const [ocrMethod, setOcrMethod] = useState<'textract' | 'mistral' | 'google'>('textract');
+  // When the result came from the server's result cache, the time it was computed
+  const [cachedAt, setCachedAt] = useState<string | null>(null);
+  const [providers, setProviders] = useState<OcrProviderDescriptor[]>([]);
+  const [ocrMethod, setOcrMethod] = useState<string>('textract');
   const [qaMethod, setQaMethod] = useState<'anthropic' | 'mistral' | 'google'>('anthropic');
   const [, setUploadedFile] = useState<File | null>(null);
   const [answerMethod, setAnswerMethod] = useState<string>("");
   const [copySuccess, setCopySuccess] = useState<boolean>(false);
-  const [mistralFileInfo, setMistralFileInfo] = useState<{id: string, signedUrl: string} | null>(null);
-  const [structuredData, setStructuredData] = useState<{
-    keyValuePairs: Array<{key: string, value: string, confidence: number, pageNumber: number}>;
-    formFields: Array<{fieldName: string, fieldValue: string, confidence: number, pageNumber: number}>;
-    tables: Array<{rows: string[][], confidence: number, pageNumber: number}>;
-    entities?: Array<{type: string, mentionText: string, confidence: number, pageNumber: number}>; // Google Document AI
-    totalPages: number;
-  } | null>(null);
+  // Signed URLs expire, so only the id is kept; the server refreshes the URL for each question
+  const [mistralFileId, setMistralFileId] = useState<string | null>(null);
+  const [structuredData, setStructuredData] = useState<StructuredData | null>(null);
+  const [pages, setPages] = useState<DocumentPage[]>([]);
+  const [useTextLayer, setUseTextLayer] = useState<boolean>(false);
+  const [useAsyncAnalysis, setUseAsyncAnalysis] = useState<boolean>(false);
+  const [pageSelection, setPageSelection] = useState<string>("");
+  const [rasterDpi, setRasterDpi] = useState<string>("144");
+  const [rasterColorMode, setRasterColorMode] = useState<RasterColorMode>('color');
+  const [rasterFormat, setRasterFormat] = useState<RasterFormat>('png');
+  const [jpegQuality, setJpegQuality] = useState<string>("85");
+  const [preprocessSteps, setPreprocessSteps] = useState<PreprocessStep[]>([]);
   const [activeTab, setActiveTab] = useState<string>('text');
+  const [pageImages, setPageImages] = useState<PageImageData[]>([]);
+  const [hoveredRegionId, setHoveredRegionId] = useState<string | null>(null);
+  const [selectedRegionId, setSelectedRegionId] = useState<string | null>(null);
+  const [confidenceThreshold, setConfidenceThreshold] = useState<number>(80);
+  const [layout, setLayout] = useState<LayoutElement[]>([]);
+  const [assets, setAssets] = useState<DocumentAsset[]>([]);
+  // Text tab shows the reading-order text instead of the per-word view
+  const [showReadingOrder, setShowReadingOrder] = useState<boolean>(false);
+  const [querySets, setQuerySets] = useState<QuerySet[]>([]);
+  const [selectedQuerySetId, setSelectedQuerySetId] = useState<string>("");
+  // Ad-hoc queries, one per line
+  const [queryText, setQueryText] = useState<string>("");
+  const [newQuerySetName, setNewQuerySetName] = useState<string>("");
+  const [newQuerySetType, setNewQuerySetType] = useState<string>("");
+
+  const selectedProvider = providers.find(provider => provider.id === ocrMethod);
+  const supportsOption = (option: OcrOptionName) =>
+    selectedProvider?.supportedOptions.includes(option) ?? false;
+  const textLayerPages = pages.filter(page => page.textSource === 'pdf').length;
+  const ocrPages = pages.filter(page => page.textSource === 'ocr').length;
+  const renderedPages = pages.filter(page => page.renderDpi !== undefined);
+  const preprocessedPages = pages.filter(page => page.preprocessing && page.preprocessing.length > 0);
+
+  const hasWordConfidence = pages.some(page => page.lines.some(line => line.words && line.words.length > 0));
+  const showWordView = hasWordConfidence && !showReadingOrder;
+  const signatures = layout.filter(element => element.type === 'signature');
+
+  // Words below the threshold in reading order, with ids matching their spans in the text tab
+  const lowConfidenceWords = useMemo(() => pages.flatMap(page =>
+    page.lines.flatMap((line, lineIndex) => (line.words || [])
+      .map((word, wordIndex) => ({ id: `word-${page.pageNumber}-${lineIndex}-${wordIndex}`, pageNumber: page.pageNumber, word }))
+      .filter(({ word }) => word.confidence < confidenceThreshold))
+  ), [pages, confidenceThreshold]);
+  const lowConfidenceIds = useMemo(() => new Set(lowConfidenceWords.map(({ id }) => id)), [lowConfidenceWords]);
+
+  // Every extracted item with geometry, keyed by the id used on its list element
+  const highlightRegions = useMemo(() => {
+    const regions: HighlightRegion[] = [];
+
+    lowConfidenceWords.forEach(({ id, pageNumber, word }) => {
+      if (word.boundingBox) {
+        regions.push({ id, pageNumber, boundingBox: word.boundingBox, label: `${word.text} (${Math.round(word.confidence)}%)`, color: 'red' });
+      }
+    });
+
+    structuredData?.keyValuePairs?.forEach((pair, index) => {
+      const boundingBox = unionBoundingBoxes([pair.keyBoundingBox, pair.valueBoundingBox]);
+      if (boundingBox) {
+        regions.push({ id: `kv-${index}`, pageNumber: pair.pageNumber, boundingBox, label: `${pair.key}: ${pair.value}`, color: 'green' });
+      }
+    });
+
+    flattenEntities(structuredData?.entities || []).forEach(({ entity, path }) => {
+      if (entity.boundingBox) {
+        regions.push({ id: `entity-${path}`, pageNumber: entity.pageNumber, boundingBox: entity.boundingBox, label: `${entity.type}: ${entity.mentionText}`, color: 'orange' });
+      }
+    });
+
+    structuredData?.queryAnswers?.forEach((queryAnswer, index) => {
+      if (queryAnswer.boundingBox) {
+        regions.push({ id: `query-${index}`, pageNumber: queryAnswer.pageNumber, boundingBox: queryAnswer.boundingBox, label: `${queryAnswer.query} ${queryAnswer.answer}`, color: 'blue' });
+      }
+    });
+
+    structuredData?.expenses?.forEach((expense, expenseIndex) => {
+      expense.summaryFields.forEach((field, fieldIndex) => {
+        if (field.boundingBox) {
+          regions.push({ id: `expense-${expenseIndex}-${fieldIndex}`, pageNumber: field.pageNumber, boundingBox: field.boundingBox, label: `${field.label || field.type}: ${field.value}`, color: 'green' });
+        }
+      });
+    });
+
+    structuredData?.tables?.forEach((table, tableIndex) => {
+      table.cells?.forEach(cell => {
+        if (cell.boundingBox) {
+          regions.push({
+            id: `cell-${tableIndex}-${cell.rowIndex}-${cell.columnIndex}`,
+            pageNumber: table.pageNumber,
+            boundingBox: cell.boundingBox,
+            label: cell.text,
+            color: 'purple'
+          });
+        }
+      });
+    });
+
+    assets.forEach((asset, index) => {
+      if (asset.boundingBox) {
+        regions.push({ id: `image-${index}`, pageNumber: asset.pageNumber, boundingBox: asset.boundingBox, label: asset.name, color: 'blue' });
+      }
+    });
+
+    return regions;
+  }, [structuredData, lowConfidenceWords, assets]);
+
+  const regionIds = useMemo(() => new Set(highlightRegions.map(region => region.id)), [highlightRegions]);
+  const visibleRegions = highlightRegions.filter(region => REGION_TABS[region.id.split('-')[0]] === activeTab);
+
+  // Props that link a results item to its region on the page
+  const regionProps = (id: string) => regionIds.has(id) ? {
+    id: `item-${id}`,
+    onMouseEnter: () => setHoveredRegionId(id),
+    onMouseLeave: () => setHoveredRegionId(null),
+    onClick: () => setSelectedRegionId(id)
+  } : {};
+  const isRegionActive = (id: string) => id === hoveredRegionId || id === selectedRegionId;
+
+  // Header rows use <th>; merged cells keep their spans
+  const renderTableRow = (row: TableCell[], rowIndex: number, tableIndex: number, isHeaderRow: boolean) => (
+    <tr key={rowIndex} className={isHeaderRow ? 'bg-gray-600' : 'bg-gray-800'}>
+      {row.map(cell => {
+        const id = `cell-${tableIndex}-${cell.rowIndex}-${cell.columnIndex}`;
+        const CellTag = isHeaderRow ? 'th' : 'td';
+        return (
+          <CellTag
+            key={cell.columnIndex}
+            rowSpan={cell.rowSpan}
+            colSpan={cell.columnSpan}
+            title={cell.text || cell.selectionStatus ? describeConfidence(cell.confidence) : undefined}
+            {...regionProps(id)}
+            className={`px-4 py-3 border border-gray-600 text-gray-300 ${
+              isHeaderRow || cell.isHeader ? 'font-semibold text-white bg-gray-600 text-center' : 'text-left'
+            } ${regionIds.has(id) ? 'cursor-pointer' : ''} ${
+              isRegionActive(id) ? 'ring-2 ring-inset ring-purple-400' : ''
+            }`}
+          >
+            {cell.selectionStatus && <SelectionMark status={cell.selectionStatus} />}
+            {cell.text || (cell.selectionStatus ? '' : '—')}
+          </CellTag>
+        );
+      })}
+    </tr>
+  );
+
+  // Steps through low-confidence words from the currently selected one
+  const jumpToLowConfidenceWord = (direction: 1 | -1) => {
+    if (lowConfidenceWords.length === 0) return;
+    const currentIndex = lowConfidenceWords.findIndex(({ id }) => id === selectedRegionId);
+    const nextIndex = currentIndex === -1
+      ? (direction === 1 ? 0 : lowConfidenceWords.length - 1)
+      : (currentIndex + direction + lowConfidenceWords.length) % lowConfidenceWords.length;
+    setSelectedRegionId(lowConfidenceWords[nextIndex].id);
+  };
+  const selectedLowConfidenceIndex = lowConfidenceWords.findIndex(({ id }) => id === selectedRegionId);
+
+  const handleRegionClick = (id: string) => {
+    setActiveTab(REGION_TABS[id.split('-')[0]]);
+    setSelectedRegionId(id);
+  };
+
+  // Bring the item for a clicked region into view once its tab has rendered
+  useEffect(() => {
+    if (selectedRegionId) {
+      document.getElementById(`item-${selectedRegionId}`)?.scrollIntoView({ block: 'nearest', behavior: 'smooth' });
+    }
+  }, [selectedRegionId, activeTab]);
+
+  const togglePreprocessStep = (step: PreprocessStep, enabled: boolean) => {
+    setPreprocessSteps(steps => enabled ? [...steps, step] : steps.filter(s => s !== step));
+  };
+
+  const selectedQuerySet = querySets.find(set => set.id === selectedQuerySetId);
+  const adHocQueries = queryText.split('\n').map(line => line.trim()).filter(line => line);
+
+  const loadQuerySets = async () => {
+    try {
+      const response = await fetch('/api/query-sets');
+      const data = await response.json();
+      setQuerySets(data.querySets || []);
+    } catch (error) {
+      console.error('Failed to load query sets:', error);
+    }
+  };
+
+  // Saves the selected set's queries plus the ad-hoc ones as a new set
+  const handleSaveQuerySet = async () => {
+    try {
+      const response = await fetch('/api/query-sets', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          name: newQuerySetName,
+          documentType: newQuerySetType,
+          queries: [...(selectedQuerySet?.queries || []), ...adHocQueries.map(text => ({ text }))]
+        })
+      });
+
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to save query set');
+      }
+
+      await loadQuerySets();
+      setSelectedQuerySetId(data.querySet.id);
+      setQueryText("");
+      setNewQuerySetName("");
+      setNewQuerySetType("");
+    } catch (error) {
+      console.error('Error saving query set:', error);
+      alert(`Failed to save query set: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  };
+
+  const handleDeleteQuerySet = async () => {
+    if (!selectedQuerySet || selectedQuerySet.builtIn) return;
+
+    try {
+      const response = await fetch(`/api/query-sets?id=${encodeURIComponent(selectedQuerySet.id)}`, { method: 'DELETE' });
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || 'Failed to delete query set');
+      }
+
+      setSelectedQuerySetId("");
+      await loadQuerySets();
+    } catch (error) {
+      console.error('Error deleting query set:', error);
+      alert(`Failed to delete query set: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  };
+
+  const handleDeleteMistralFile = async () => {
+    if (!mistralFileId) return;
+
+    try {
+      const response = await fetch(`/api/mistral-files?id=${encodeURIComponent(mistralFileId)}`, { method: 'DELETE' });
+      // Already gone, e.g. removed after the retention period
+      if (!response.ok && response.status !== 404) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || 'Failed to delete Mistral file');
+      }
+
+      setMistralFileId(null);
+    } catch (error) {
+      console.error('Error deleting Mistral file:', error);
+      alert(`Failed to delete Mistral file: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  };
+
+  useEffect(() => {
+    loadQuerySets();
+  }, []);
+
+  // Reattach to a job that was still running when the page was closed or reloaded
+  useEffect(() => {
+    const saved = localStorage.getItem(ACTIVE_JOB_STORAGE_KEY);
+    if (!saved) return;
+
+    const { jobId, fileName, providerId } = JSON.parse(saved) as ActiveJob;
+    setFileName(fileName);
+    setOcrMethod(providerId);
+    setIsExtracting(true);
+    followExtractionJob(jobId);
+    // eslint-disable-next-line react-hooks/exhaustive-deps -- only on first load
+  }, []);
+
+  useEffect(() => {
+    const loadProviders = async () => {
+      try {
+        const response = await fetch('/api/extract');
+        const data = await response.json();
+        setProviders(data.providers || []);
+      } catch (error) {
+        console.error('Failed to load OCR providers:', error);
+      }
+    };
+    loadProviders();
+  }, []);
 
   const handleFileUpload = async (event: React.ChangeEvent<HTMLInputElement>) => {
     const file = event.target.files?.[0];
@@ -34,19 +457,51 @@ export default function PDFTextractDemo() {
     setExtractedText("");
     setAnswer("");
     setProcessor("");
+    setCachedAt(null);
     setUploadedFile(file);
-    setMistralFileInfo(null);
+    setMistralFileId(null);
     setStructuredData(null);
+    setPages([]);
+    setLayout([]);
+    setAssets([]);
+    setPageImages([]);
+    setHoveredRegionId(null);
+    setSelectedRegionId(null);
 
     try {
       const formData = new FormData();
-      formData.append('pdf', file);
+      formData.append('file', file);
+      formData.append('provider', ocrMethod);
+      if (supportsOption('hybrid')) {
+        formData.append('hybrid', String(useTextLayer));
+      }
+      if (supportsOption('asyncAnalysis')) {
+        formData.append('asyncAnalysis', String(useAsyncAnalysis));
+      }
+      if (supportsOption('pages') && pageSelection.trim()) {
+        formData.append('pages', pageSelection.trim());
+      }
+      if (supportsOption('raster')) {
+        formData.append('dpi', rasterDpi);
+        formData.append('colorMode', rasterColorMode);
+        formData.append('imageFormat', rasterFormat);
+        if (rasterFormat === 'jpeg') {
+          formData.append('jpegQuality', jpegQuality);
+        }
+      }
+      if (supportsOption('preprocess') && preprocessSteps.length > 0) {
+        formData.append('preprocess', preprocessSteps.join(','));
+      }
+      if (supportsOption('queries')) {
+        if (selectedQuerySetId) {
+          formData.append('querySet', selectedQuerySetId);
+        }
+        if (adHocQueries.length > 0) {
+          formData.append('queries', adHocQueries.join('\n'));
+        }
+      }
 
-      // Choose API endpoint based on selected OCR method
-      const endpoint = ocrMethod === 'mistral' ? '/api/extract-text-mistral' : 
-                      ocrMethod === 'google' ? '/api/extract-text-google' : '/api/extract-text-aws';
-      
-      const response = await fetch(endpoint, {
+      const response = await fetch('/api/extract-jobs', {
         method: 'POST',
         body: formData,
       });
@@ -56,43 +511,158 @@ export default function PDFTextractDemo() {
         throw new Error(errorData.error || 'Failed to extract text');
       }
 
+      const { jobId } = await response.json();
+      const activeJob: ActiveJob = { jobId, fileName: file.name, providerId: ocrMethod };
+      localStorage.setItem(ACTIVE_JOB_STORAGE_KEY, JSON.stringify(activeJob));
+      await followExtractionJob(jobId, formData);
+    } catch (error) {
+      console.error('Error extracting text:', error);
+      alert(`Failed to extract text: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      setIsExtracting(false);
+    }
+  };
+
+  // Follows a submitted job's progress events, showing finished pages as they arrive, then shows its result.
+  // Page images need the original file, so they are only loaded when `formData` is given.
+  const followExtractionJob = async (jobId: string, formData?: FormData) => {
+    try {
+      const job = await watchExtractionJob(jobId);
+      if (job.status === 'failed') {
+        throw new Error(job.error || 'Failed to extract text');
+      }
+
+      const response = await fetch(`/api/extract-jobs/result?id=${encodeURIComponent(jobId)}`);
       const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to load extraction result');
+      }
+
       setExtractedText(data.text);
-      setProcessor(data.processor || (ocrMethod === 'mistral' ? 'Mistral OCR' : 
-                                    ocrMethod === 'google' ? 'Google Document AI' : 'AWS Textract'));
+      setProcessor(data.processor || selectedProvider?.label || ocrMethod);
+      setCachedAt(data.cached ? data.cachedAt : null);
       
-      // Store Mistral file info if using Mistral OCR
-      if (ocrMethod === 'mistral' && data.fileInfo) {
-        setMistralFileInfo({
-          id: data.fileInfo.id,
-          signedUrl: data.fileInfo.signedUrl
-        });
+      // Store the uploaded file info for providers that support direct Q&A
+      if (data.metadata?.uploadedFile) {
+        setMistralFileId(data.metadata.uploadedFile.id);
       }
       
-      // Store structured data if using AWS Textract or Google Document AI
-      if ((ocrMethod === 'textract' || ocrMethod === 'google') && (data.keyValuePairs || data.formFields || data.tables || data.entities)) {
-        setStructuredData({
-          keyValuePairs: data.keyValuePairs || [],
-          formFields: data.formFields || [],
-          tables: data.tables || [],
-          entities: data.entities || [], // Google Document AI specific
-          totalPages: data.totalPages || 1
-        });
+      setStructuredData({
+        keyValuePairs: data.keyValuePairs || [],
+        tables: data.tables || [],
+        entities: data.entities || [],
+        queryAnswers: data.queryAnswers || [],
+        expenses: data.expenses || [],
+        identityDocuments: data.identityDocuments || [],
+        totalPages: data.totalPages || 1
+      });
+      setPages(data.pages || []);
+      setLayout(data.layout || []);
+      setAssets(data.assets || []);
+      if (formData) {
+        // Render each page at the DPI the extraction used for it
+        const renderDpis = Object.fromEntries((data.pages as DocumentPage[] || [])
+          .filter(page => page.renderDpi)
+          .map(page => [page.pageNumber, page.renderDpi]));
+        formData.set('renderDpis', JSON.stringify(renderDpis));
+        loadPageImages(formData);
       }
     } catch (error) {
       console.error('Error extracting text:', error);
       alert(`Failed to extract text: ${error instanceof Error ? error.message : 'Unknown error'}`);
     } finally {
+      localStorage.removeItem(ACTIVE_JOB_STORAGE_KEY);
+      setPageProgress([]);
+      setJobStatusMessage(null);
       setIsExtracting(false);
     }
   };
 
+  // Resolves with the job once it has finished; reconnecting replays the progress so far
+  const watchExtractionJob = (jobId: string) => new Promise<ExtractionJob>((resolve, reject) => {
+    const partials = new Map<number, PartialPageResult>();
+    const source = new EventSource(`/api/extract-jobs/events?id=${encodeURIComponent(jobId)}`);
+
+    const updatePage = (pageNumber: number, changes: Partial<PageProgress>) => {
+      setPageProgress(progress => progress.map(page => page.pageNumber === pageNumber ? { ...page, ...changes } : page));
+    };
+
+    source.onmessage = (event) => {
+      const message = JSON.parse(event.data) as ExtractionJobMessage;
+      switch (message.type) {
+        case 'job':
+          if (message.job.status === 'succeeded' || message.job.status === 'failed') {
+            source.close();
+            resolve(message.job);
+          }
+          break;
+        case 'status':
+          setJobStatusMessage(message.message);
+          break;
+        case 'rasterized':
+          setJobStatusMessage(null);
+          setPageProgress(message.pageNumbers.map(pageNumber => ({ pageNumber, status: 'queued' })));
+          break;
+        case 'pageStarted':
+          updatePage(message.pageNumber, { status: 'running' });
+          break;
+        case 'pageFailed':
+          updatePage(message.pageNumber, { status: 'failed', error: message.error });
+          break;
+        case 'pageDone': {
+          updatePage(message.pageNumber, { status: 'done', counts: message.counts });
+          partials.set(message.pageNumber, message.partial);
+          const finishedPages = Array.from(partials.values()).sort((a, b) => a.page.pageNumber - b.page.pageNumber);
+          setExtractedText(finishedPages.map(({ page }) => page.text).join('\n\n'));
+          setPages(finishedPages.map(({ page }) => page));
+          setStructuredData({
+            keyValuePairs: finishedPages.flatMap(({ keyValuePairs }) => keyValuePairs),
+            tables: finishedPages.flatMap(({ tables }) => tables),
+            entities: [],
+            queryAnswers: [],
+            expenses: [],
+            identityDocuments: [],
+            totalPages: finishedPages.length
+          });
+          break;
+        }
+      }
+    };
+
+    // EventSource reconnects on its own unless the job could not be found
+    source.onerror = () => {
+      if (source.readyState === EventSource.CLOSED) {
+        reject(new Error('Lost track of the extraction job'));
+      }
+    };
+  });
+
+  // Page images for the viewer, rendered with the same page selection and preprocessing as the extraction
+  const loadPageImages = async (formData: FormData) => {
+    try {
+      const response = await fetch('/api/page-images', {
+        method: 'POST',
+        body: formData,
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || 'Failed to render pages');
+      }
+
+      const data = await response.json();
+      setPageImages(data.pages || []);
+    } catch (error) {
+      // The viewer is optional; the extraction results are still usable without it
+      console.error('Failed to load page images:', error);
+    }
+  };
+
   const handleAskQuestion = async () => {
     if (!question.trim()) return;
     
     // Check requirements based on Q&A method
     if ((qaMethod === 'anthropic' || qaMethod === 'google') && !extractedText) return;
-    if (qaMethod === 'mistral' && !mistralFileInfo) return;
+    if (qaMethod === 'mistral' && !mistralFileId) return;
 
     setIsAnswering(true);
     setAnswer("");
@@ -100,7 +670,7 @@ export default function PDFTextractDemo() {
     try {
       if (qaMethod === 'mistral') {
         // Use Mistral direct document Q&A with file ID
-        if (!mistralFileInfo) {
+        if (!mistralFileId) {
           throw new Error('No Mistral file info available. Please upload a document with Mistral OCR first.');
         }
 
@@ -111,9 +681,7 @@ export default function PDFTextractDemo() {
           },
           body: JSON.stringify({
             question,
-            fileId: mistralFileInfo.id,
-            signedUrl: mistralFileInfo.signedUrl,
-            filename: fileName
+            fileId: mistralFileId
           }),
         });
 
@@ -206,89 +774,290 @@ export default function PDFTextractDemo() {
             <div className="mb-6">
               <h3 className="text-sm font-medium text-white mb-3">OCR Processing Method</h3>
               <div className="space-y-3">
-                <label className="flex items-start space-x-3 cursor-pointer p-3 rounded-lg border border-gray-600 hover:border-gray-500 transition-colors">
-                  <input
-                    type="radio"
-                    name="ocrMethod"
-                    value="textract"
-                    checked={ocrMethod === 'textract'}
-                    onChange={(e) => setOcrMethod(e.target.value as 'textract' | 'mistral' | 'google')}
-                    className="mt-1 text-blue-600 focus:ring-blue-500"
-                  />
-                  <div className="flex-1">
-                    <div className="text-white font-medium">AWS Textract</div>
-                    <div className="text-gray-400 text-sm">PDF documents only, 10MB size limit</div>
+                {providers.map((provider) => (
+                  <label key={provider.id} className="flex items-start space-x-3 cursor-pointer p-3 rounded-lg border border-gray-600 hover:border-gray-500 transition-colors">
+                    <input
+                      type="radio"
+                      name="ocrMethod"
+                      value={provider.id}
+                      checked={ocrMethod === provider.id}
+                      onChange={(e) => setOcrMethod(e.target.value)}
+                      className="mt-1 text-blue-600 focus:ring-blue-500"
+                    />
+                    <div className="flex-1">
+                      <div className="text-white font-medium">{provider.label}</div>
+                      <div className="text-gray-400 text-sm">{provider.description}</div>
+                    </div>
+                  </label>
+                ))}
+              </div>
+            </div>
+
+            {/* Processing Options */}
+            {(supportsOption('hybrid') || supportsOption('asyncAnalysis') || supportsOption('pages') || supportsOption('raster') || supportsOption('preprocess') || supportsOption('queries')) && (
+              <div className="mb-6 space-y-3">
+                <h3 className="text-sm font-medium text-white">Processing Options</h3>
+                {supportsOption('pages') && (
+                  <div>
+                    <label htmlFor="pageSelection" className="block text-white text-sm mb-1">Pages</label>
+                    <input
+                      id="pageSelection"
+                      type="text"
+                      value={pageSelection}
+                      onChange={(e) => setPageSelection(e.target.value)}
+                      placeholder="All pages, or e.g. 1-3,7,last"
+                      className="w-full px-3 py-2 bg-gray-700 border border-gray-600 rounded-lg text-white text-sm placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    />
                   </div>
-                </label>
-                <label className="flex items-start space-x-3 cursor-pointer p-3 rounded-lg border border-gray-600 hover:border-gray-500 transition-colors">
-                  <input
-                    type="radio"
-                    name="ocrMethod"
-                    value="mistral"
-                    checked={ocrMethod === 'mistral'}
-                    onChange={(e) => setOcrMethod(e.target.value as 'textract' | 'mistral' | 'google')}
-                    className="mt-1 text-blue-600 focus:ring-blue-500"
-                  />
-                  <div className="flex-1">
-                    <div className="text-white font-medium">Mistral OCR</div>
-                    <div className="text-gray-400 text-sm">PDF + Images (JPEG, PNG, GIF, WebP), 50MB limit</div>
+                )}
+                {supportsOption('hybrid') && (
+                  <label className="flex items-start space-x-3 cursor-pointer">
+                    <input
+                      type="checkbox"
+                      checked={useTextLayer}
+                      onChange={(e) => setUseTextLayer(e.target.checked)}
+                      className="mt-1 text-blue-600 focus:ring-blue-500"
+                    />
+                    <div className="flex-1">
+                      <div className="text-white text-sm">Use embedded PDF text</div>
+                      <div className="text-gray-400 text-xs">Read born-digital pages from the PDF text layer and only OCR scanned pages</div>
+                    </div>
+                  </label>
+                )}
+                {supportsOption('asyncAnalysis') && (
+                  <label className="flex items-start space-x-3 cursor-pointer">
+                    <input
+                      type="checkbox"
+                      checked={useAsyncAnalysis}
+                      onChange={(e) => setUseAsyncAnalysis(e.target.checked)}
+                      className="mt-1 text-blue-600 focus:ring-blue-500"
+                    />
+                    <div className="flex-1">
+                      <div className="text-white text-sm">Asynchronous analysis</div>
+                      <div className="text-gray-400 text-xs">Analyze the whole document in one job (always used above 10MB)</div>
+                    </div>
+                  </label>
+                )}
+                {supportsOption('raster') && (
+                  <div>
+                    <div className="text-white text-sm mb-1">Rasterization</div>
+                    <div className="grid grid-cols-2 gap-2">
+                      <label className="text-gray-400 text-xs">
+                        DPI
+                        <input
+                          type="number"
+                          min={72}
+                          max={600}
+                          value={rasterDpi}
+                          onChange={(e) => setRasterDpi(e.target.value)}
+                          className="mt-1 w-full px-2 py-1 bg-gray-700 border border-gray-600 rounded text-white text-sm"
+                        />
+                      </label>
+                      <label className="text-gray-400 text-xs">
+                        Color
+                        <select
+                          value={rasterColorMode}
+                          onChange={(e) => setRasterColorMode(e.target.value as RasterColorMode)}
+                          className="mt-1 w-full px-2 py-1 bg-gray-700 border border-gray-600 rounded text-white text-sm"
+                        >
+                          <option value="color">Color</option>
+                          <option value="grayscale">Grayscale</option>
+                        </select>
+                      </label>
+                      <label className="text-gray-400 text-xs">
+                        Format
+                        <select
+                          value={rasterFormat}
+                          onChange={(e) => setRasterFormat(e.target.value as RasterFormat)}
+                          className="mt-1 w-full px-2 py-1 bg-gray-700 border border-gray-600 rounded text-white text-sm"
+                        >
+                          <option value="png">PNG</option>
+                          <option value="jpeg">JPEG</option>
+                        </select>
+                      </label>
+                      {rasterFormat === 'jpeg' && (
+                        <label className="text-gray-400 text-xs">
+                          JPEG quality
+                          <input
+                            type="number"
+                            min={1}
+                            max={100}
+                            value={jpegQuality}
+                            onChange={(e) => setJpegQuality(e.target.value)}
+                            className="mt-1 w-full px-2 py-1 bg-gray-700 border border-gray-600 rounded text-white text-sm"
+                          />
+                        </label>
+                      )}
+                    </div>
+                    <div className="text-gray-400 text-xs mt-1">Pages over the provider&apos;s image limit are re-rendered at a lower DPI</div>
                   </div>
-                </label>
-                <label className="flex items-start space-x-3 cursor-pointer p-3 rounded-lg border border-gray-600 hover:border-gray-500 transition-colors">
-                  <input
-                    type="radio"
-                    name="ocrMethod"
-                    value="google"
-                    checked={ocrMethod === 'google'}
-                    onChange={(e) => setOcrMethod(e.target.value as 'textract' | 'mistral' | 'google')}
-                    className="mt-1 text-blue-600 focus:ring-blue-500"
-                  />
-                  <div className="flex-1">
-                    <div className="text-white font-medium">Google Document AI</div>
-                    <div className="text-gray-400 text-sm">PDF + Images (JPEG, PNG, GIF, WebP, TIFF), 20MB limit</div>
+                )}
+                {supportsOption('preprocess') && (
+                  <div>
+                    <div className="text-white text-sm mb-1">Image preprocessing</div>
+                    <div className="grid grid-cols-2 gap-1">
+                      {PREPROCESS_STEPS.map(step => (
+                        <label key={step} className="flex items-center space-x-2 cursor-pointer text-gray-300 text-xs">
+                          <input
+                            type="checkbox"
+                            checked={preprocessSteps.includes(step)}
+                            onChange={(e) => togglePreprocessStep(step, e.target.checked)}
+                            className="text-blue-600 focus:ring-blue-500"
+                          />
+                          <span>{PREPROCESS_STEP_LABELS[step]}</span>
+                        </label>
+                      ))}
+                    </div>
+                    <div className="text-gray-400 text-xs mt-1">Cleans up phone photos and fax scans before OCR</div>
                   </div>
-                </label>
+                )}
+                {supportsOption('queries') && (
+                  <div>
+                    <label htmlFor="querySet" className="block text-white text-sm mb-1">Queries</label>
+                    <div className="flex gap-2">
+                      <select
+                        id="querySet"
+                        value={selectedQuerySetId}
+                        onChange={(e) => setSelectedQuerySetId(e.target.value)}
+                        className="flex-1 px-2 py-1 bg-gray-700 border border-gray-600 rounded text-white text-sm"
+                      >
+                        <option value="">No saved query set</option>
+                        {querySets.map(set => (
+                          <option key={set.id} value={set.id}>
+                            {set.documentType}: {set.name} ({set.queries.length})
+                          </option>
+                        ))}
+                      </select>
+                      {selectedQuerySet && !selectedQuerySet.builtIn && (
+                        <button
+                          onClick={handleDeleteQuerySet}
+                          className="px-2 py-1 bg-gray-700 hover:bg-red-700 rounded text-gray-300 text-xs"
+                        >
+                          Delete
+                        </button>
+                      )}
+                    </div>
+                    {selectedQuerySet && (
+                      <ul className="mt-2 space-y-1 text-gray-400 text-xs list-disc list-inside">
+                        {selectedQuerySet.queries.map(query => (
+                          <li key={query.text}>{query.text}</li>
+                        ))}
+                      </ul>
+                    )}
+                    <textarea
+                      value={queryText}
+                      onChange={(e) => setQueryText(e.target.value)}
+                      rows={3}
+                      placeholder={"Additional questions, one per line\ne.g. What is the policy number?"}
+                      className="mt-2 w-full px-3 py-2 bg-gray-700 border border-gray-600 rounded-lg text-white text-sm placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    />
+                    {adHocQueries.length > 0 && (
+                      <div className="mt-2 grid grid-cols-2 gap-2">
+                        <input
+                          type="text"
+                          value={newQuerySetName}
+                          onChange={(e) => setNewQuerySetName(e.target.value)}
+                          placeholder="Set name"
+                          className="px-2 py-1 bg-gray-700 border border-gray-600 rounded text-white text-xs placeholder-gray-400"
+                        />
+                        <input
+                          type="text"
+                          value={newQuerySetType}
+                          onChange={(e) => setNewQuerySetType(e.target.value)}
+                          placeholder="Document type"
+                          className="px-2 py-1 bg-gray-700 border border-gray-600 rounded text-white text-xs placeholder-gray-400"
+                        />
+                        <button
+                          onClick={handleSaveQuerySet}
+                          disabled={!newQuerySetName.trim() || !newQuerySetType.trim()}
+                          className="col-span-2 px-2 py-1 bg-blue-600 hover:bg-blue-700 rounded text-white text-xs disabled:opacity-50 disabled:cursor-not-allowed"
+                        >
+                          Save as query set
+                        </button>
+                      </div>
+                    )}
+                    <div className="text-gray-400 text-xs mt-1">Answered by Textract during extraction, without a Q&amp;A call</div>
+                  </div>
+                )}
               </div>
-            </div>
+            )}
 
             {/* File Upload */}
             <div>
               <h3 className="text-sm font-medium text-white mb-3">Upload File</h3>
               <input
               type="file"
-              accept={ocrMethod === 'mistral' ? '.pdf,.jpg,.jpeg,.png,.gif,.webp' : 
-                     ocrMethod === 'google' ? '.pdf,.jpg,.jpeg,.png,.gif,.webp,.tiff,.tif' : '.pdf'}
+              accept={selectedProvider?.acceptedExtensions.join(',')}
               onChange={handleFileUpload}
               className="block w-full text-sm text-gray-300 bg-gray-700 border border-gray-600 rounded-lg cursor-pointer focus:outline-none"
             />
             <p className="mt-2 text-xs text-gray-500">
-              {ocrMethod === 'mistral' 
-                ? 'Accepts: PDF, JPEG, PNG, GIF, WebP (up to 50MB)'
-                : ocrMethod === 'google'
-                ? 'Accepts: PDF, JPEG, PNG, GIF, WebP, TIFF (up to 20MB)'
-                : 'Accepts: PDF only (up to 10MB)'
-              }
+              {selectedProvider && `Accepts: ${selectedProvider.acceptedExtensions.join(', ')} (up to ${Math.round(selectedProvider.maxFileSize / 1024 / 1024)}MB)`}
             </p>
             {fileName && (
               <p className="mt-2 text-sm text-gray-400">Selected: {fileName}</p>
             )}
             {processor && (
-              <p className="mt-1 text-sm text-green-400">Processed with: {processor}</p>
+              <p className="mt-1 text-sm text-green-400">
+                Processed with: {processor}
+                {cachedAt && (
+                  <span className="ml-2 text-gray-400" title="Same file, provider and options as an earlier extraction">
+                    (cached result from {new Date(cachedAt).toLocaleString()})
+                  </span>
+                )}
+              </p>
             )}
-            {mistralFileInfo && (
+            {mistralFileId && (
               <div className="mt-2 p-2 bg-blue-900 border border-blue-700 rounded text-xs">
-                <p className="text-blue-200">
-                  <span className="font-medium">Mistral File ID:</span> 
-                  <span className="font-mono ml-1">{mistralFileInfo.id}</span>
-                </p>
+                <div className="flex justify-between items-center gap-2">
+                  <p className="text-blue-200">
+                    <span className="font-medium">Mistral File ID:</span> 
+                    <span className="font-mono ml-1">{mistralFileId}</span>
+                  </p>
+                  <button
+                    onClick={handleDeleteMistralFile}
+                    className="px-2 py-1 bg-red-700 text-white rounded hover:bg-red-600"
+                    title="Delete the uploaded copy from Mistral now instead of waiting for the retention period"
+                  >
+                    Delete
+                  </button>
+                </div>
                 <p className="text-blue-300 text-xs mt-1">✓ Document is uploaded and ready for Mistral Q&A</p>
               </div>
             )}
             {isExtracting && (
-              <div className="mt-4 flex items-center text-blue-400">
-                <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-blue-400 mr-2"></div>
-                Extracting text with {ocrMethod === 'mistral' ? 'Mistral OCR' : 
-                                     ocrMethod === 'google' ? 'Google Document AI' : 'AWS Textract'}...
+              <div className="mt-4 text-blue-400">
+                <div className="flex items-center">
+                  <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-blue-400 mr-2"></div>
+                  Extracting text with {selectedProvider?.label || ocrMethod}...
+                </div>
+                {jobStatusMessage && (
+                  <p className="mt-1 text-xs text-gray-400">{jobStatusMessage}</p>
+                )}
+                {pageProgress.length > 0 && (
+                  <div className="mt-2">
+                    <div className="flex gap-0.5 h-2">
+                      {pageProgress.map(page => (
+                        <div
+                          key={page.pageNumber}
+                          title={describePageProgress(page)}
+                          className={`flex-1 rounded-sm ${PAGE_PROGRESS_COLORS[page.status]}`}
+                        />
+                      ))}
+                    </div>
+                    <p className="mt-1 text-xs text-gray-400">
+                      {pageProgress.filter(page => page.status === 'done' || page.status === 'failed').length} of {pageProgress.length} pages done
+                      {pageProgress.some(page => page.status === 'done') && ' · finished pages are shown below'}
+                    </p>
+                    {pageProgress.some(page => page.status === 'failed') && (
+                      <ul className="mt-2 text-xs text-red-400 space-y-1">
+                        {pageProgress.filter(page => page.status === 'failed').map(page => (
+                          <li key={page.pageNumber}>{page.error}</li>
+                        ))}
+                      </ul>
+                    )}
+                  </div>
+                )}
               </div>
             )}
             </div>
@@ -321,7 +1090,7 @@ export default function PDFTextractDemo() {
                   </div>
                 </label>
                 <label className={`flex items-start space-x-3 cursor-pointer p-3 rounded-lg border transition-colors ${
-                  ocrMethod === 'textract' 
+                  !selectedProvider?.supportsDirectQa 
                     ? 'border-gray-700 bg-gray-800/50 cursor-not-allowed' 
                     : qaMethod === 'mistral' 
                       ? 'border-blue-500 bg-blue-900/20' 
@@ -334,21 +1103,19 @@ export default function PDFTextractDemo() {
                     checked={qaMethod === 'mistral'}
                     onChange={(e) => setQaMethod(e.target.value as 'anthropic' | 'mistral' | 'google')}
                     className="mt-1 text-blue-600 focus:ring-blue-500"
-                    disabled={ocrMethod === 'textract'}
+                    disabled={!selectedProvider?.supportsDirectQa}
                   />
                   <div className="flex-1">
-                    <div className={`font-medium ${ocrMethod === 'textract' ? 'text-gray-500' : 'text-white'}`}>Mistral</div>
+                    <div className={`font-medium ${!selectedProvider?.supportsDirectQa ? 'text-gray-500' : 'text-white'}`}>Mistral</div>
                     <div className="text-gray-400 text-sm">
-                      {ocrMethod === 'textract' ? 'Only available with Mistral OCR parsing' : 'Direct document Q&A with uploaded file'}
+                      {!selectedProvider?.supportsDirectQa ? 'Only available with Mistral OCR parsing' : 'Direct document Q&A with uploaded file'}
                     </div>
                   </div>
                 </label>
                 <label className={`flex items-start space-x-3 cursor-pointer p-3 rounded-lg border transition-colors ${
-                  ocrMethod === 'mistral' 
-                    ? 'border-gray-700 bg-gray-800/50 cursor-not-allowed' 
-                    : qaMethod === 'google' 
-                      ? 'border-blue-500 bg-blue-900/20' 
-                      : 'border-gray-600 hover:border-gray-500'
+                  qaMethod === 'google' 
+                    ? 'border-blue-500 bg-blue-900/20' 
+                    : 'border-gray-600 hover:border-gray-500'
                 }`}>
                   <input
                     type="radio"
@@ -357,13 +1124,10 @@ export default function PDFTextractDemo() {
                     checked={qaMethod === 'google'}
                     onChange={(e) => setQaMethod(e.target.value as 'anthropic' | 'mistral' | 'google')}
                     className="mt-1 text-blue-600 focus:ring-blue-500"
-                    disabled={ocrMethod === 'mistral'}
                   />
                   <div className="flex-1">
-                    <div className={`font-medium ${ocrMethod === 'mistral' ? 'text-gray-500' : 'text-white'}`}>Google Gemini</div>
-                    <div className="text-gray-400 text-sm">
-                      {ocrMethod === 'mistral' ? 'Only available with Textract/Google parsing' : 'Question answering over parsed text and structured data'}
-                    </div>
+                    <div className="text-white font-medium">Google Gemini</div>
+                    <div className="text-gray-400 text-sm">Question answering over parsed text and structured data</div>
                   </div>
                 </label>
               </div>
@@ -375,11 +1139,11 @@ export default function PDFTextractDemo() {
                 onChange={(e) => setQuestion(e.target.value)}
                 placeholder="Enter your question about the document content..."
                 className="w-full h-24 p-3 bg-gray-700 border border-gray-600 rounded-lg text-white placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-blue-500"
-                disabled={(qaMethod === 'anthropic' || qaMethod === 'google') ? !extractedText : !mistralFileInfo}
+                disabled={(qaMethod === 'anthropic' || qaMethod === 'google') ? !extractedText : !mistralFileId}
               />
               <button
                 onClick={handleAskQuestion}
-                disabled={!question.trim() || isAnswering || ((qaMethod === 'anthropic' || qaMethod === 'google') ? !extractedText : !mistralFileInfo)}
+                disabled={!question.trim() || isAnswering || ((qaMethod === 'anthropic' || qaMethod === 'google') ? !extractedText : !mistralFileId)}
                 className="w-full px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:opacity-50 disabled:cursor-not-allowed"
               >
                 {isAnswering ? "Getting Answer..." : `Ask Question (${qaMethod === 'anthropic' ? 'Anthropic' : qaMethod === 'google' ? 'Google Gemini' : 'Mistral'})`}
@@ -445,6 +1209,58 @@ export default function PDFTextractDemo() {
                 </button>
               )}
               
+              {structuredData?.expenses && structuredData.expenses.length > 0 && (
+                <button
+                  onClick={() => setActiveTab('expenses')}
+                  className={`px-4 py-2 rounded-t-lg font-medium transition-colors duration-200 ${
+                    activeTab === 'expenses'
+                      ? 'bg-green-600 text-white border-b-2 border-green-400'
+                      : 'text-gray-400 hover:text-white hover:bg-gray-700'
+                  }`}
+                >
+                  🧾 Expenses ({structuredData.expenses.length})
+                </button>
+              )}
+
+              {structuredData?.identityDocuments && structuredData.identityDocuments.length > 0 && (
+                <button
+                  onClick={() => setActiveTab('identity')}
+                  className={`px-4 py-2 rounded-t-lg font-medium transition-colors duration-200 ${
+                    activeTab === 'identity'
+                      ? 'bg-teal-600 text-white border-b-2 border-teal-400'
+                      : 'text-gray-400 hover:text-white hover:bg-gray-700'
+                  }`}
+                >
+                  🪪 Identity ({structuredData.identityDocuments.length})
+                </button>
+              )}
+
+              {structuredData?.queryAnswers && structuredData.queryAnswers.length > 0 && (
+                <button
+                  onClick={() => setActiveTab('queries')}
+                  className={`px-4 py-2 rounded-t-lg font-medium transition-colors duration-200 ${
+                    activeTab === 'queries'
+                      ? 'bg-blue-600 text-white border-b-2 border-blue-400'
+                      : 'text-gray-400 hover:text-white hover:bg-gray-700'
+                  }`}
+                >
+                  ❓ Query Answers ({structuredData.queryAnswers.length})
+                </button>
+              )}
+
+              {assets.length > 0 && (
+                <button
+                  onClick={() => setActiveTab('images')}
+                  className={`px-4 py-2 rounded-t-lg font-medium transition-colors duration-200 ${
+                    activeTab === 'images'
+                      ? 'bg-blue-600 text-white border-b-2 border-blue-400'
+                      : 'text-gray-400 hover:text-white hover:bg-gray-700'
+                  }`}
+                >
+                  🖼️ Images ({assets.length})
+                </button>
+              )}
+
               {structuredData && (
                 <button
                   onClick={() => setActiveTab('summary')}
@@ -459,186 +1275,555 @@ export default function PDFTextractDemo() {
               )}
             </div>
 
-            {/* Tab Content */}
-            <div className="min-h-[400px]">
-              {/* Free Text Tab */}
-              {activeTab === 'text' && (
-                <div>
-                  <div className="flex justify-between items-center mb-4">
-                    <h3 className="text-lg font-medium text-white">Raw Extracted Text</h3>
-                    <button
-                      onClick={handleCopyText}
-                      className="flex items-center space-x-2 px-3 py-1 bg-gray-700 hover:bg-gray-600 text-gray-300 hover:text-white rounded-lg transition-colors duration-200 text-sm"
-                      title="Copy to clipboard"
-                    >
-                      {copySuccess ? (
-                        <>
-                          <svg className="w-4 h-4" fill="currentColor" viewBox="0 0 20 20">
-                            <path fillRule="evenodd" d="M16.707 5.293a1 1 0 010 1.414l-8 8a1 1 0 01-1.414 0l-4-4a1 1 0 011.414-1.414L8 12.586l7.293-7.293a1 1 0 011.414 0z" clipRule="evenodd" />
-                          </svg>
-                          <span>Copied!</span>
-                        </>
+            <div className={pageImages.length > 0 ? 'grid grid-cols-1 lg:grid-cols-2 gap-6' : ''}>
+              {/* Page Viewer */}
+              {pageImages.length > 0 && (
+                <PageViewer
+                  images={pageImages}
+                  regions={visibleRegions}
+                  hoveredRegionId={hoveredRegionId}
+                  selectedRegionId={selectedRegionId}
+                  onRegionHover={setHoveredRegionId}
+                  onRegionClick={handleRegionClick}
+                />
+              )}
+
+              {/* Tab Content */}
+              <div className="min-h-[400px] min-w-0">
+                {/* Free Text Tab */}
+                {activeTab === 'text' && (
+                  <div>
+                    <div className="flex justify-between items-center mb-4">
+                      <h3 className="text-lg font-medium text-white">Raw Extracted Text</h3>
+                      <div className="flex items-center gap-2">
+                        {hasWordConfidence && layout.length > 0 && (
+                          <button
+                            onClick={() => setShowReadingOrder(!showReadingOrder)}
+                            className="px-3 py-1 bg-gray-700 hover:bg-gray-600 text-gray-300 hover:text-white rounded-lg transition-colors duration-200 text-sm"
+                            title="Switch between the reading-order text sent to Q&A and the per-word confidence view"
+                          >
+                            {showReadingOrder ? 'Word confidence' : 'Reading order'}
+                          </button>
+                        )}
+                        <button
+                          onClick={handleCopyText}
+                          className="flex items-center space-x-2 px-3 py-1 bg-gray-700 hover:bg-gray-600 text-gray-300 hover:text-white rounded-lg transition-colors duration-200 text-sm"
+                          title="Copy to clipboard"
+                        >
+                          {copySuccess ? (
+                            <>
+                              <svg className="w-4 h-4" fill="currentColor" viewBox="0 0 20 20">
+                                <path fillRule="evenodd" d="M16.707 5.293a1 1 0 010 1.414l-8 8a1 1 0 01-1.414 0l-4-4a1 1 0 011.414-1.414L8 12.586l7.293-7.293a1 1 0 011.414 0z" clipRule="evenodd" />
+                              </svg>
+                              <span>Copied!</span>
+                            </>
+                          ) : (
+                            <>
+                              <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 16H6a2 2 0 01-2-2V6a2 2 0 012-2h8a2 2 0 012 2v2m-6 12h8a2 2 0 002-2v-8a2 2 0 00-2 2v8a2 2 0 002 2z" />
+                              </svg>
+                              <span>Copy</span>
+                            </>
+                          )}
+                        </button>
+                      </div>
+                    </div>
+                    {showWordView && (
+                      <div className="flex flex-wrap items-center gap-4 mb-4 text-sm text-gray-300">
+                        <label className="flex items-center gap-2">
+                          <span>Highlight words below</span>
+                          <input
+                            type="range"
+                            min={0}
+                            max={100}
+                            value={confidenceThreshold}
+                            onChange={(e) => setConfidenceThreshold(Number(e.target.value))}
+                          />
+                          <span className="w-10 text-white">{confidenceThreshold}%</span>
+                        </label>
+                        <span className="text-gray-400">
+                          {lowConfidenceWords.length} low-confidence word{lowConfidenceWords.length !== 1 ? 's' : ''}
+                          {selectedLowConfidenceIndex !== -1 && ` (${selectedLowConfidenceIndex + 1}/${lowConfidenceWords.length})`}
+                        </span>
+                        <div className="flex gap-2">
+                          <button
+                            onClick={() => jumpToLowConfidenceWord(-1)}
+                            disabled={lowConfidenceWords.length === 0}
+                            className="px-3 py-1 bg-gray-700 hover:bg-gray-600 rounded-lg disabled:opacity-50 disabled:cursor-not-allowed"
+                          >
+                            ← Previous
+                          </button>
+                          <button
+                            onClick={() => jumpToLowConfidenceWord(1)}
+                            disabled={lowConfidenceWords.length === 0}
+                            className="px-3 py-1 bg-gray-700 hover:bg-gray-600 rounded-lg disabled:opacity-50 disabled:cursor-not-allowed"
+                          >
+                            Next →
+                          </button>
+                        </div>
+                      </div>
+                    )}
+                    <div className="bg-gray-700 rounded-lg p-6 h-96 overflow-y-auto">
+                      {showWordView ? (
+                        <div className="text-gray-300 text-sm leading-relaxed">
+                          {pages.map(page => (
+                            <div key={page.pageNumber} className="mb-4">
+                              <div className="text-gray-500">=== Page {page.pageNumber} ===</div>
+                              {page.lines.map((line, lineIndex) => (
+                                <div key={lineIndex}>
+                                  {line.words && line.words.length > 0 ? line.words.map((word, wordIndex) => {
+                                    const id = `word-${page.pageNumber}-${lineIndex}-${wordIndex}`;
+                                    const isLow = lowConfidenceIds.has(id);
+                                    return (
+                                      <span key={wordIndex}>
+                                        {wordIndex > 0 && ' '}
+                                        <span
+                                          id={isLow ? `item-${id}` : undefined}
+                                          title={`${Math.round(word.confidence)}% confidence`}
+                                          onMouseEnter={isLow ? () => setHoveredRegionId(id) : undefined}
+                                          onMouseLeave={isLow ? () => setHoveredRegionId(null) : undefined}
+                                          onClick={isLow ? () => setSelectedRegionId(id) : undefined}
+                                          className={isLow
+                                            ? `bg-red-900/60 text-red-100 rounded px-0.5 cursor-pointer ${isRegionActive(id) ? 'ring-2 ring-red-400' : ''}`
+                                            : ''}
+                                        >
+                                          {word.text}
+                                        </span>
+                                      </span>
+                                    );
+                                  }) : line.text}
+                                </div>
+                              ))}
+                            </div>
+                          ))}
+                        </div>
                       ) : (
-                        <>
-                          <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 16H6a2 2 0 01-2-2V6a2 2 0 012-2h8a2 2 0 012 2v2m-6 12h8a2 2 0 002-2v-8a2 2 0 00-2 2v8a2 2 0 002 2z" />
-                          </svg>
-                          <span>Copy</span>
-                        </>
+                        <pre className="text-gray-300 text-sm whitespace-pre-wrap leading-relaxed">{extractedText}</pre>
                       )}
-                    </button>
-                  </div>
-                  <div className="bg-gray-700 rounded-lg p-6 h-96 overflow-y-auto">
-                    <pre className="text-gray-300 text-sm whitespace-pre-wrap leading-relaxed">{extractedText}</pre>
+                    </div>
                   </div>
-                </div>
-              )}
+                )}
 
-              {/* Key-Value Pairs Tab */}
-              {activeTab === 'keyvalue' && structuredData?.keyValuePairs && (
-                <div>
-                  <h3 className="text-lg font-medium text-white mb-4">
-                    Forms & Key-Value Pairs ({structuredData.keyValuePairs.length} pairs)
-                  </h3>
-                  <div className="bg-gray-700 rounded-lg p-6 h-96 overflow-y-auto space-y-4">
-                    {structuredData.keyValuePairs.map((pair, index) => (
-                      <div key={index} className="bg-gray-600 rounded-lg p-4 border-l-4 border-green-500">
-                        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-                          <div>
-                            <div className="text-xs text-gray-400 mb-2 font-medium">KEY</div>
-                            <div className="text-green-300 font-medium text-base break-words">
-                              {pair.key || 'N/A'}
+                {/* Key-Value Pairs Tab */}
+                {activeTab === 'keyvalue' && structuredData?.keyValuePairs && (
+                  <div>
+                    <h3 className="text-lg font-medium text-white mb-4">
+                      Forms & Key-Value Pairs ({structuredData.keyValuePairs.length} pairs)
+                    </h3>
+                    <div className="bg-gray-700 rounded-lg p-6 h-96 overflow-y-auto space-y-4">
+                      {structuredData.keyValuePairs.map((pair, index) => (
+                        <div
+                          key={index}
+                          {...regionProps(`kv-${index}`)}
+                          className={`bg-gray-600 rounded-lg p-4 border-l-4 border-green-500 ${regionIds.has(`kv-${index}`) ? 'cursor-pointer' : ''} ${isRegionActive(`kv-${index}`) ? 'ring-2 ring-green-400' : ''}`}
+                        >
+                          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                            <div>
+                              <div className="text-xs text-gray-400 mb-2 font-medium">KEY</div>
+                              <div className="text-green-300 font-medium text-base break-words">
+                                {pair.key || 'N/A'}
+                              </div>
                             </div>
-                          </div>
-                          <div>
-                            <div className="text-xs text-gray-400 mb-2 font-medium">VALUE</div>
-                            <div className="text-blue-300 text-base break-words">
-                              {pair.value || 'N/A'}
+                            <div>
+                              <div className="text-xs text-gray-400 mb-2 font-medium">VALUE</div>
+                              <div className="text-blue-300 text-base break-words">
+                                {pair.selectionStatus && <SelectionMark status={pair.selectionStatus} />}
+                                {pair.value || (pair.selectionStatus ? (pair.selectionStatus === 'selected' ? 'Checked' : 'Not checked') : 'N/A')}
+                              </div>
                             </div>
                           </div>
+                          <div className="flex justify-between items-center mt-3 pt-3 border-t border-gray-500 text-xs text-gray-400">
+                            <span>Page {pair.pageNumber}</span>
+                            <span>{describeConfidence(pair.confidence)}</span>
+                          </div>
                         </div>
-                        <div className="flex justify-between items-center mt-3 pt-3 border-t border-gray-500 text-xs text-gray-400">
-                          <span>Page {pair.pageNumber}</span>
-                          <span>{Math.round(pair.confidence)}% confidence</span>
-                        </div>
-                      </div>
-                    ))}
+                      ))}
+                    </div>
                   </div>
-                </div>
-              )}
+                )}
 
-              {/* Tables Tab */}
-              {activeTab === 'tables' && structuredData?.tables && (
-                <div>
-                  <h3 className="text-lg font-medium text-white mb-4">
-                    Tables ({structuredData.tables.length} table{structuredData.tables.length !== 1 ? 's' : ''})
-                  </h3>
-                  <div className="h-96 overflow-y-auto space-y-6">
-                    {structuredData.tables.map((table, tableIndex) => (
-                      <div key={tableIndex} className="bg-gray-700 rounded-lg p-6 border-l-4 border-purple-500">
-                        <div className="flex justify-between items-center mb-4">
-                          <h4 className="text-base font-medium text-white">Table {tableIndex + 1}</h4>
-                          <div className="text-xs text-gray-400">
-                            Page {table.pageNumber} • {Math.round(table.confidence)}% confidence
+                {/* Tables Tab */}
+                {activeTab === 'tables' && structuredData?.tables && (
+                  <div>
+                    <h3 className="text-lg font-medium text-white mb-4">
+                      Tables ({structuredData.tables.length} table{structuredData.tables.length !== 1 ? 's' : ''})
+                    </h3>
+                    <div className="h-96 overflow-y-auto space-y-6">
+                      {structuredData.tables.map((table, tableIndex) => (
+                        <div key={tableIndex} className="bg-gray-700 rounded-lg p-6 border-l-4 border-purple-500">
+                          <div className="flex justify-between items-center mb-4">
+                            <h4 className="text-base font-medium text-white">Table {tableIndex + 1}</h4>
+                            <div className="text-xs text-gray-400">
+                              Page {table.pageNumber} • {describeConfidence(table.confidence)}
+                            </div>
                           </div>
+                          {table.title && (
+                            <div className="text-sm font-medium text-gray-200 mb-2">{table.title}</div>
+                          )}
+                          <div className="overflow-x-auto">
+                            <table className="min-w-full text-sm border border-gray-600">
+                              {getHeaderRowCount(table) > 0 && (
+                                <thead>
+                                  {getTableGrid(table).slice(0, getHeaderRowCount(table)).map((row, rowIndex) => renderTableRow(row, rowIndex, tableIndex, true))}
+                                </thead>
+                              )}
+                              <tbody>
+                                {getTableGrid(table).slice(getHeaderRowCount(table)).map((row, rowIndex) => renderTableRow(row, rowIndex + getHeaderRowCount(table), tableIndex, false))}
+                              </tbody>
+                            </table>
+                          </div>
+                          {table.footer && (
+                            <div className="text-xs text-gray-400 mt-2">{table.footer}</div>
+                          )}
                         </div>
-                        <div className="overflow-x-auto">
-                          <table className="min-w-full text-sm border border-gray-600">
-                            <tbody>
-                              {table.rows.map((row, rowIndex) => (
-                                <tr key={rowIndex} className={rowIndex === 0 ? 'bg-gray-600' : 'bg-gray-800'}>
-                                  {row.map((cell, cellIndex) => (
-                                    <td 
-                                      key={cellIndex} 
-                                      className={`px-4 py-3 border border-gray-600 text-gray-300 ${
-                                        rowIndex === 0 ? 'font-semibold text-white bg-gray-600' : ''
-                                      }`}
-                                    >
-                                      {cell || '—'}
-                                    </td>
-                                  ))}
-                                </tr>
-                              ))}
-                            </tbody>
-                          </table>
-                        </div>
-                      </div>
-                    ))}
+                      ))}
+                    </div>
                   </div>
-                </div>
-              )}
+                )}
 
-              {/* Entities Tab */}
-              {activeTab === 'entities' && structuredData?.entities && (
-                <div>
-                  <h3 className="text-lg font-medium text-white mb-4">
-                    Extracted Entities ({structuredData.entities.length} entities)
-                  </h3>
-                  <div className="bg-gray-700 rounded-lg p-6 h-96 overflow-y-auto space-y-4">
-                    {structuredData.entities.map((entity, index) => (
-                      <div key={index} className="bg-gray-600 rounded-lg p-4 border-l-4 border-orange-500">
-                        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-                          <div>
-                            <div className="text-xs text-gray-400 mb-2 font-medium">TYPE</div>
-                            <div className="text-orange-300 font-medium text-base break-words">
-                              {entity.type || 'Unknown'}
+                {/* Entities Tab */}
+                {activeTab === 'entities' && structuredData?.entities && (
+                  <div>
+                    <h3 className="text-lg font-medium text-white mb-4">
+                      Extracted Entities ({structuredData.entities.length} entities)
+                    </h3>
+                    <div className="bg-gray-700 rounded-lg p-6 h-96 overflow-y-auto space-y-4">
+                      {/* Properties are listed under their parent entity, indented by depth */}
+                      {flattenEntities(structuredData.entities).map(({ entity, depth, path }) => (
+                        <div
+                          key={path}
+                          {...regionProps(`entity-${path}`)}
+                          style={{ marginLeft: `${depth * 1.5}rem` }}
+                          className={`bg-gray-600 rounded-lg p-4 border-l-4 ${depth > 0 ? 'border-orange-300/60' : 'border-orange-500'} ${regionIds.has(`entity-${path}`) ? 'cursor-pointer' : ''} ${isRegionActive(`entity-${path}`) ? 'ring-2 ring-orange-400' : ''}`}
+                        >
+                          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                            <div>
+                              <div className="text-xs text-gray-400 mb-2 font-medium">{depth > 0 ? 'PROPERTY' : 'TYPE'}</div>
+                              <div className="text-orange-300 font-medium text-base break-words">
+                                {entity.type || 'Unknown'}
+                              </div>
                             </div>
-                          </div>
-                          <div>
-                            <div className="text-xs text-gray-400 mb-2 font-medium">MENTION</div>
-                            <div className="text-yellow-300 text-base break-words">
-                              {entity.mentionText || 'N/A'}
+                            <div>
+                              <div className="text-xs text-gray-400 mb-2 font-medium">MENTION</div>
+                              <div className="text-yellow-300 text-base break-words whitespace-pre-line">
+                                {entity.mentionText || 'N/A'}
+                              </div>
                             </div>
+                            {entity.normalizedValue && (
+                              <div>
+                                <div className="text-xs text-gray-400 mb-2 font-medium">NORMALIZED</div>
+                                <div className="text-white text-base break-words">
+                                  {formatNormalizedValue(entity.normalizedValue)}
+                                </div>
+                              </div>
+                            )}
+                          </div>
+                          <div className="flex justify-between items-center mt-3 pt-3 border-t border-gray-500 text-xs text-gray-400">
+                            <span>
+                              Page {entity.pageNumber}
+                              {entity.properties && ` · ${entity.properties.length} propert${entity.properties.length !== 1 ? 'ies' : 'y'}`}
+                            </span>
+                            <span>{Math.round(entity.confidence)}% confidence</span>
                           </div>
                         </div>
-                        <div className="flex justify-between items-center mt-3 pt-3 border-t border-gray-500 text-xs text-gray-400">
-                          <span>Page {entity.pageNumber}</span>
-                          <span>{Math.round(entity.confidence * 100)}% confidence</span>
-                        </div>
-                      </div>
-                    ))}
+                      ))}
+                    </div>
                   </div>
-                </div>
-              )}
+                )}
 
-              {/* Summary Tab */}
-              {activeTab === 'summary' && structuredData && (
-                <div>
-                  <h3 className="text-lg font-medium text-white mb-6">Extraction Summary</h3>
-                  <div className="grid grid-cols-1 md:grid-cols-4 gap-6">
-                    <div className="bg-gray-700 rounded-lg p-6 text-center border-l-4 border-blue-500">
-                      <div className="text-3xl font-bold text-white mb-2">{structuredData.totalPages}</div>
-                      <div className="text-gray-400 font-medium">Total Pages</div>
+                {/* Expenses Tab */}
+                {activeTab === 'expenses' && structuredData?.expenses && (
+                  <div>
+                    <h3 className="text-lg font-medium text-white mb-4">
+                      Expenses ({structuredData.expenses.length} invoice{structuredData.expenses.length !== 1 ? 's' : ''} or receipt{structuredData.expenses.length !== 1 ? 's' : ''})
+                    </h3>
+                    <div className="h-96 overflow-y-auto space-y-6">
+                      {structuredData.expenses.map((expense, expenseIndex) => {
+                        const lineItems = expense.lineItemGroups.flatMap(group => group.lineItems);
+                        const columns = getLineItemColumns(lineItems);
+                        return (
+                          <div key={expenseIndex} className="bg-gray-700 rounded-lg p-6 border-l-4 border-green-500">
+                            <div className="flex justify-between items-center mb-4">
+                              <h4 className="text-base font-medium text-white">Expense {expense.index}</h4>
+                              <div className="text-xs text-gray-400">Page {expense.pageNumber}</div>
+                            </div>
+                            <div className="grid grid-cols-2 md:grid-cols-3 gap-4 mb-4">
+                              {(Object.keys(EXPENSE_SUMMARY_LABELS) as (keyof ExpenseSummary)[])
+                                .filter(key => expense.summary[key])
+                                .map(key => (
+                                  <div key={key}>
+                                    <div className="text-xs text-gray-400 mb-1 font-medium">{EXPENSE_SUMMARY_LABELS[key].toUpperCase()}</div>
+                                    <div className="text-green-300 text-base break-words whitespace-pre-line">{expense.summary[key]}</div>
+                                  </div>
+                                ))}
+                            </div>
+                            {lineItems.length > 0 && (
+                              <div className="overflow-x-auto mb-4">
+                                <table className="min-w-full text-sm border border-gray-600">
+                                  <thead>
+                                    <tr className="bg-gray-600">
+                                      {columns.map(column => (
+                                        <th key={column} className="px-4 py-2 border border-gray-600 font-semibold text-white text-left">{column}</th>
+                                      ))}
+                                    </tr>
+                                  </thead>
+                                  <tbody>
+                                    {lineItems.map((lineItem, lineIndex) => (
+                                      <tr key={lineIndex} className="bg-gray-800" title={lineItem.row}>
+                                        {columns.map(column => (
+                                          <td key={column} className="px-4 py-2 border border-gray-600 text-gray-300">
+                                            {lineItem.fields.find(field => field.type === column)?.value || '—'}
+                                          </td>
+                                        ))}
+                                      </tr>
+                                    ))}
+                                  </tbody>
+                                </table>
+                              </div>
+                            )}
+                            <div>
+                              <div className="text-sm text-gray-400">All summary fields ({expense.summaryFields.length})</div>
+                              <div className="mt-2 space-y-1">
+                                {expense.summaryFields.map((field, fieldIndex) => (
+                                  <div
+                                    key={fieldIndex}
+                                    {...regionProps(`expense-${expenseIndex}-${fieldIndex}`)}
+                                    className={`flex justify-between gap-4 px-3 py-2 bg-gray-600 rounded text-sm ${regionIds.has(`expense-${expenseIndex}-${fieldIndex}`) ? 'cursor-pointer' : ''} ${isRegionActive(`expense-${expenseIndex}-${fieldIndex}`) ? 'ring-2 ring-green-400' : ''}`}
+                                  >
+                                    <span className="text-gray-300">
+                                      <span className="font-mono text-xs text-gray-400 mr-2">{field.type}</span>
+                                      {field.label}
+                                    </span>
+                                    <span className="text-white text-right break-words">
+                                      {field.value || 'N/A'}
+                                      <span className="text-xs text-gray-400 ml-2">{Math.round(field.confidence)}%</span>
+                                    </span>
+                                  </div>
+                                ))}
+                              </div>
+                            </div>
+                          </div>
+                        );
+                      })}
                     </div>
-                    <div className="bg-gray-700 rounded-lg p-6 text-center border-l-4 border-green-500">
-                      <div className="text-3xl font-bold text-green-400 mb-2">{structuredData.keyValuePairs?.length || 0}</div>
-                      <div className="text-gray-400 font-medium">Forms & Key-Value Pairs</div>
+                  </div>
+                )}
+
+                {/* Identity Tab */}
+                {activeTab === 'identity' && structuredData?.identityDocuments && (
+                  <div>
+                    <h3 className="text-lg font-medium text-white mb-4">
+                      Identity Documents ({structuredData.identityDocuments.length})
+                    </h3>
+                    <div className="h-96 overflow-y-auto space-y-6">
+                      {structuredData.identityDocuments.map((identityDocument, documentIndex) => {
+                        const expirationDate = identityDocument.summary.expirationDate?.date;
+                        const isExpired = expirationDate !== undefined && expirationDate < new Date().toISOString().slice(0, 10);
+                        return (
+                          <div key={documentIndex} className="bg-gray-700 rounded-lg p-6 border-l-4 border-teal-500">
+                            <div className="flex justify-between items-center mb-4">
+                              <h4 className="text-base font-medium text-white">
+                                {identityDocument.documentType || `Identity Document ${identityDocument.index}`}
+                                {isExpired && (
+                                  <span className="ml-3 px-2 py-0.5 rounded bg-red-600 text-white text-xs font-medium">Expired</span>
+                                )}
+                              </h4>
+                              <div className="text-xs text-gray-400">Page {identityDocument.pageNumber}</div>
+                            </div>
+                            <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mb-4">
+                              {(Object.keys(IDENTITY_SUMMARY_LABELS) as (keyof IdentitySummary)[])
+                                .filter(key => identityDocument.summary[key])
+                                .map(key => {
+                                  const field = identityDocument.summary[key]!;
+                                  return (
+                                    <div key={key} className={key === 'mrz' || key === 'address' ? 'md:col-span-2' : ''}>
+                                      <div className="text-xs text-gray-400 mb-1 font-medium">{IDENTITY_SUMMARY_LABELS[key].toUpperCase()}</div>
+                                      <div className={`text-teal-300 text-base break-words whitespace-pre-line ${key === 'mrz' ? 'font-mono text-sm' : ''}`}>
+                                        {field.value}
+                                        {field.date && field.date !== field.value && (
+                                          <span className="text-xs text-gray-400 ml-2">{field.date}</span>
+                                        )}
+                                      </div>
+                                      <div className="text-xs text-gray-500 mt-1">{Math.round(field.confidence)}% confidence</div>
+                                    </div>
+                                  );
+                                })}
+                            </div>
+                            <div>
+                              <div className="text-sm text-gray-400">All fields ({identityDocument.fields.length})</div>
+                              <div className="mt-2 space-y-1">
+                                {identityDocument.fields.map((field, fieldIndex) => (
+                                  <div key={fieldIndex} className="flex justify-between gap-4 px-3 py-2 bg-gray-600 rounded text-sm">
+                                    <span className="font-mono text-xs text-gray-400">{field.type}</span>
+                                    <span className="text-white text-right break-words">
+                                      {field.value}
+                                      <span className="text-xs text-gray-400 ml-2">{Math.round(field.confidence)}%</span>
+                                    </span>
+                                  </div>
+                                ))}
+                              </div>
+                            </div>
+                          </div>
+                        );
+                      })}
                     </div>
-                    <div className="bg-gray-700 rounded-lg p-6 text-center border-l-4 border-purple-500">
-                      <div className="text-3xl font-bold text-purple-400 mb-2">{structuredData.tables?.length || 0}</div>
-                      <div className="text-gray-400 font-medium">Tables</div>
+                  </div>
+                )}
+
+                {/* Query Answers Tab */}
+                {activeTab === 'queries' && structuredData?.queryAnswers && (
+                  <div>
+                    <h3 className="text-lg font-medium text-white mb-4">
+                      Query Answers ({structuredData.queryAnswers.length} answer{structuredData.queryAnswers.length !== 1 ? 's' : ''})
+                    </h3>
+                    <div className="bg-gray-700 rounded-lg p-6 h-96 overflow-y-auto space-y-4">
+                      {structuredData.queryAnswers.map((queryAnswer, index) => (
+                        <div
+                          key={index}
+                          {...regionProps(`query-${index}`)}
+                          className={`bg-gray-600 rounded-lg p-4 border-l-4 border-blue-500 ${regionIds.has(`query-${index}`) ? 'cursor-pointer' : ''} ${isRegionActive(`query-${index}`) ? 'ring-2 ring-blue-400' : ''}`}
+                        >
+                          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                            <div>
+                              <div className="text-xs text-gray-400 mb-2 font-medium">{queryAnswer.alias || 'QUERY'}</div>
+                              <div className="text-blue-300 font-medium text-base break-words">
+                                {queryAnswer.query}
+                              </div>
+                            </div>
+                            <div>
+                              <div className="text-xs text-gray-400 mb-2 font-medium">ANSWER</div>
+                              <div className="text-white text-base break-words">
+                                {queryAnswer.answer || 'N/A'}
+                              </div>
+                            </div>
+                          </div>
+                          <div className="flex justify-between items-center mt-3 pt-3 border-t border-gray-500 text-xs text-gray-400">
+                            <span>Page {queryAnswer.pageNumber}</span>
+                            <span>{Math.round(queryAnswer.confidence)}% confidence</span>
+                          </div>
+                        </div>
+                      ))}
                     </div>
-                    <div className="bg-gray-700 rounded-lg p-6 text-center border-l-4 border-orange-500">
-                      <div className="text-3xl font-bold text-orange-400 mb-2">{structuredData.entities?.length || 0}</div>
-                      <div className="text-gray-400 font-medium">Entities</div>
+                  </div>
+                )}
+
+                {/* Images Tab */}
+                {activeTab === 'images' && assets.length > 0 && (
+                  <div>
+                    <h3 className="text-lg font-medium text-white mb-4">
+                      Embedded Images ({assets.length} image{assets.length !== 1 ? 's' : ''})
+                    </h3>
+                    <div className="bg-gray-700 rounded-lg p-6 h-96 overflow-y-auto grid grid-cols-2 md:grid-cols-3 gap-4">
+                      {assets.map((asset, index) => (
+                        <div
+                          key={asset.id}
+                          {...regionProps(`image-${index}`)}
+                          className={`bg-gray-600 rounded-lg p-3 border-l-4 border-blue-500 ${regionIds.has(`image-${index}`) ? 'cursor-pointer' : ''} ${isRegionActive(`image-${index}`) ? 'ring-2 ring-blue-400' : ''}`}
+                        >
+                          <a href={asset.url} target="_blank" rel="noopener noreferrer">
+                            {/* eslint-disable-next-line @next/next/no-img-element -- served by the assets API */}
+                            <img src={asset.url} alt={asset.name} className="w-full h-32 object-contain bg-gray-800 rounded" />
+                          </a>
+                          <div className="flex justify-between items-center mt-2 text-xs text-gray-400">
+                            <span className="truncate" title={asset.name}>{asset.name}</span>
+                            <span>Page {asset.pageNumber}</span>
+                          </div>
+                        </div>
+                      ))}
                     </div>
                   </div>
-                  
-                  <div className="mt-8 bg-gray-700 rounded-lg p-6">
-                    <h4 className="text-base font-medium text-white mb-4">Processing Details</h4>
-                    <div className="grid grid-cols-1 md:grid-cols-2 gap-4 text-sm">
-                      <div>
-                        <span className="text-gray-400">Processor:</span>
-                        <span className="text-white ml-2">{processor}</span>
+                )}
+
+                {/* Summary Tab */}
+                {activeTab === 'summary' && structuredData && (
+                  <div>
+                    <h3 className="text-lg font-medium text-white mb-6">Extraction Summary</h3>
+                    <div className="grid grid-cols-1 md:grid-cols-4 gap-6">
+                      <div className="bg-gray-700 rounded-lg p-6 text-center border-l-4 border-blue-500">
+                        <div className="text-3xl font-bold text-white mb-2">{structuredData.totalPages}</div>
+                        <div className="text-gray-400 font-medium">Total Pages</div>
+                      </div>
+                      <div className="bg-gray-700 rounded-lg p-6 text-center border-l-4 border-green-500">
+                        <div className="text-3xl font-bold text-green-400 mb-2">{structuredData.keyValuePairs?.length || 0}</div>
+                        <div className="text-gray-400 font-medium">Forms & Key-Value Pairs</div>
                       </div>
-                      <div>
-                        <span className="text-gray-400">Document:</span>
-                        <span className="text-white ml-2">{fileName}</span>
+                      <div className="bg-gray-700 rounded-lg p-6 text-center border-l-4 border-purple-500">
+                        <div className="text-3xl font-bold text-purple-400 mb-2">{structuredData.tables?.length || 0}</div>
+                        <div className="text-gray-400 font-medium">Tables</div>
+                      </div>
+                      <div className="bg-gray-700 rounded-lg p-6 text-center border-l-4 border-orange-500">
+                        <div className="text-3xl font-bold text-orange-400 mb-2">{structuredData.entities?.length || 0}</div>
+                        <div className="text-gray-400 font-medium">Entities</div>
+                      </div>
+                    </div>
+                  
+                    <div className="mt-8 bg-gray-700 rounded-lg p-6">
+                      <h4 className="text-base font-medium text-white mb-4">Processing Details</h4>
+                      <div className="grid grid-cols-1 md:grid-cols-2 gap-4 text-sm">
+                        <div>
+                          <span className="text-gray-400">Processor:</span>
+                          <span className="text-white ml-2">{processor}</span>
+                        </div>
+                        <div>
+                          <span className="text-gray-400">Document:</span>
+                          <span className="text-white ml-2">{fileName}</span>
+                        </div>
+                        {assets.length > 0 && (
+                          <div>
+                            <span className="text-gray-400">Embedded images:</span>
+                            <span className="text-white ml-2">{assets.length}</span>
+                          </div>
+                        )}
+                        {(textLayerPages > 0 || ocrPages > 0) && (
+                          <div>
+                            <span className="text-gray-400">Text source:</span>
+                            <span className="text-white ml-2">
+                              {textLayerPages} page{textLayerPages !== 1 ? 's' : ''} from PDF text, {ocrPages} page{ocrPages !== 1 ? 's' : ''} from OCR
+                            </span>
+                          </div>
+                        )}
+                        {renderedPages.length > 0 && (
+                          <div className="md:col-span-2">
+                            <span className="text-gray-400">Render DPI:</span>
+                            <span className="text-white ml-2">
+                              {renderedPages.map(page => `p${page.pageNumber}: ${page.renderDpi}`).join(', ')}
+                            </span>
+                          </div>
+                        )}
+                        {signatures.length > 0 && (
+                          <div className="md:col-span-2">
+                            <span className="text-gray-400">Signatures:</span>
+                            <span className="text-white ml-2">
+                              {signatures.map(signature => `p${signature.pageNumber} (${Math.round(signature.confidence)}%)`).join(', ')}
+                            </span>
+                          </div>
+                        )}
+                        {preprocessedPages.length > 0 && (
+                          <div className="md:col-span-2">
+                            <span className="text-gray-400">Preprocessing:</span>
+                            <ul className="text-white ml-2 mt-1 space-y-1">
+                              {preprocessedPages.map(page => (
+                                <li key={page.pageNumber}>
+                                  Page {page.pageNumber}:{' '}
+                                  {page.preprocessing!.map(record => (
+                                    <span
+                                      key={record.step}
+                                      className={`mr-2 ${record.applied ? 'text-green-400' : 'text-gray-500'}`}
+                                      title={record.detail}
+                                    >
+                                      {PREPROCESS_STEP_LABELS[record.step]}{record.detail ? ` (${record.detail})` : ''}
+                                    </span>
+                                  ))}
+                                </li>
+                              ))}
+                            </ul>
+                          </div>
+                        )}
                       </div>
                     </div>
                   </div>
-                </div>
-              )}
+                )}
+              </div>
             </div>
           </div>
         )}
@@ -0,0 +1,95 @@
+"use client";
+
+import { useEffect, useRef } from "react";
+import type { BoundingBox } from "@/lib/ocr-provider";
+import type { PageImageData } from "@/lib/pdf-images";
+
+// An extracted item drawn on the page; `id` links it to the item in the results list
+export interface HighlightRegion {
+  id: string;
+  pageNumber: number;
+  boundingBox: BoundingBox;
+  label: string;
+  color: 'green' | 'orange' | 'purple' | 'blue' | 'red';
+}
+
+interface PageViewerProps {
+  images: PageImageData[];
+  regions: HighlightRegion[];
+  // Region under the pointer in either the viewer or the results list
+  hoveredRegionId: string | null;
+  // Region picked by a click; the viewer scrolls to it
+  selectedRegionId: string | null;
+  onRegionHover: (id: string | null) => void;
+  onRegionClick: (id: string) => void;
+}
+
+const REGION_COLORS: Record<HighlightRegion['color'], { idle: string; active: string }> = {
+  green: { idle: 'border-green-400/60', active: 'border-green-400 bg-green-400/30' },
+  orange: { idle: 'border-orange-400/60', active: 'border-orange-400 bg-orange-400/30' },
+  purple: { idle: 'border-purple-400/60', active: 'border-purple-400 bg-purple-400/30' },
+  blue: { idle: 'border-blue-400/60', active: 'border-blue-400 bg-blue-400/30' },
+  red: { idle: 'border-red-400/60 bg-red-400/10', active: 'border-red-400 bg-red-400/30' }
+};
+
+export function PageViewer({ images, regions, hoveredRegionId, selectedRegionId, onRegionHover, onRegionClick }: PageViewerProps) {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const regionRefs = useRef(new Map<string, HTMLDivElement>());
+
+  // Scroll only the viewer, not the window, so the results list stays in place
+  useEffect(() => {
+    const container = containerRef.current;
+    const region = selectedRegionId ? regionRefs.current.get(selectedRegionId) : undefined;
+    if (!container || !region) {
+      return;
+    }
+
+    const containerRect = container.getBoundingClientRect();
+    const regionRect = region.getBoundingClientRect();
+    container.scrollTo({
+      top: container.scrollTop + regionRect.top - containerRect.top - containerRect.height / 3,
+      behavior: 'smooth'
+    });
+  }, [selectedRegionId]);
+
+  return (
+    <div ref={containerRef} className="bg-gray-900 rounded-lg p-4 h-[600px] overflow-y-auto space-y-4">
+      {images.map(image => (
+        <div key={image.pageNumber}>
+          <div className="text-xs text-gray-400 mb-1">Page {image.pageNumber}</div>
+          <div className="relative">
+            {/* eslint-disable-next-line @next/next/no-img-element -- served by the assets API */}
+            <img src={image.url} alt={`Page ${image.pageNumber}`} loading="lazy" className="w-full block" />
+            {regions.filter(region => region.pageNumber === image.pageNumber).map(region => {
+              const isActive = region.id === hoveredRegionId || region.id === selectedRegionId;
+              const colors = REGION_COLORS[region.color];
+              return (
+                <div
+                  key={region.id}
+                  ref={element => {
+                    if (element) {
+                      regionRefs.current.set(region.id, element);
+                    } else {
+                      regionRefs.current.delete(region.id);
+                    }
+                  }}
+                  title={region.label}
+                  onMouseEnter={() => onRegionHover(region.id)}
+                  onMouseLeave={() => onRegionHover(null)}
+                  onClick={() => onRegionClick(region.id)}
+                  className={`absolute border cursor-pointer transition-colors ${isActive ? `${colors.active} border-2 z-10` : colors.idle}`}
+                  style={{
+                    left: `${region.boundingBox.left * 100}%`,
+                    top: `${region.boundingBox.top * 100}%`,
+                    width: `${region.boundingBox.width * 100}%`,
+                    height: `${region.boundingBox.height * 100}%`
+                  }}
+                />
+              );
+            })}
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -1,26 +1,9 @@
 import Anthropic from '@anthropic-ai/sdk';
 import { MODELS, API_CONFIG } from './constants';
+import { formatStructuredData } from './ocr-provider';
+import type { StructuredData } from './ocr-provider';
 
-export interface StructuredData {
-  keyValuePairs?: Array<{
-    key: string;
-    value: string;
-    confidence: number;
-    pageNumber: number;
-  }>;
-  formFields?: Array<{
-    fieldName: string;
-    fieldValue: string;
-    confidence: number;
-    pageNumber: number;
-  }>;
-  tables?: Array<{
-    rows: string[][];
-    confidence: number;
-    pageNumber: number;
-  }>;
-  totalPages?: number;
-}
+export type { StructuredData };
 
 export interface QuestionAnswerRequest {
   question: string;
@@ -101,31 +84,8 @@ export class AnthropicService {
 Document Text:
 ${extractedText}`;
 
-    // Add structured data if available (from AWS Textract)
     if (structuredData) {
-      if (structuredData.keyValuePairs && structuredData.keyValuePairs.length > 0) {
-        prompt += `\n\nKey-Value Pairs:`;
-        structuredData.keyValuePairs.forEach((pair) => {
-          prompt += `\n- ${pair.key}: ${pair.value} (Page ${pair.pageNumber})`;
-        });
-      }
-
-      if (structuredData.tables && structuredData.tables.length > 0) {
-        prompt += `\n\nTables:`;
-        structuredData.tables.forEach((table, index) => {
-          prompt += `\n\nTable ${index + 1} (Page ${table.pageNumber}):`;
-          table.rows.forEach((row, rowIndex) => {
-            prompt += `\n${rowIndex === 0 ? 'Headers: ' : 'Row: '}${row.join(' | ')}`;
-          });
-        });
-      }
-
-      if (structuredData.formFields && structuredData.formFields.length > 0) {
-        prompt += `\n\nForm Fields:`;
-        structuredData.formFields.forEach((field) => {
-          prompt += `\n- ${field.fieldName}: ${field.fieldValue} (Page ${field.pageNumber})`;
-        });
-      }
+      prompt += formatStructuredData(structuredData);
     }
 
     prompt += `\n\nQuestion: ${question}
@@ -14,16 +14,54 @@ export const MODELS = {
 
 // API configuration constants
 export const API_CONFIG = {
+  TEXTRACT: {
+    SYNC_MAX_FILE_SIZE: 10 * 1024 * 1024, // 10MB for synchronous operations
+    ASYNC_MAX_FILE_SIZE: 500 * 1024 * 1024, // 500MB for StartDocumentAnalysis
+    IMAGE_MAX_FILE_SIZE: 100 * 1024 * 1024, // 100MB for images; frames are downscaled to the sync limit
+    ASYNC_POLL_INTERVAL_MS: 5000,
+    ASYNC_MAX_WAIT_MS: 15 * 60 * 1000,
+    STAGING_PREFIX: 'textract-staging/',
+    PAGE_CONCURRENCY: 4, // Parallel page requests, override with TEXTRACT_PAGE_CONCURRENCY
+    RETRY_MAX_ATTEMPTS: 5,
+    RETRY_BASE_DELAY_MS: 500,
+    RETRY_MAX_DELAY_MS: 20000,
+    MAX_QUERIES: 15, // QUERIES per request; Textract's limit for synchronous analysis
+    MAX_QUERY_LENGTH: 200,
+  },
   ANTHROPIC: {
     MAX_TOKENS: 1000,
   },
   MISTRAL: {
     DOCUMENT_IMAGE_LIMIT: 100,
     DOCUMENT_PAGE_LIMIT: 500,
+    FILE_RETENTION_HOURS: 0, // Uploaded OCR files are kept; set MISTRAL_FILE_RETENTION_HOURS to delete them after that many hours
+    FILE_NAME_PREFIX: 'aws-textract-demo-', // Marks the files this app uploaded, the only ones it lists and deletes
+    SIGNED_URL_EXPIRY_HOURS: 24,
+    RETENTION_SWEEP_INTERVAL_MS: 10 * 60 * 1000,
   },
   GOOGLE: {
     LOCATION: 'us', // or 'eu' depending on your preference
     MAX_FILE_SIZE: 20 * 1024 * 1024, // 20MB for Google Document AI
     MAX_TOKENS: 8192,
+  },
+  RESULT_CACHE: {
+    TTL_HOURS: 24, // Override with RESULT_CACHE_TTL_HOURS; 0 turns the cache off
+  },
+  ASSETS: {
+    RETENTION_HOURS: 24, // Stored images and rendered pages are deleted after this
+  },
+  EXTRACTION_JOBS: {
+    RETENTION_HOURS: 24, // Finished jobs and their results are deleted after this
+    EVENTS_KEEPALIVE_MS: 15 * 1000, // Comment sent on idle event streams so proxies keep them open
+  },
+  RASTER: {
+    DEFAULT_DPI: 144, // Matches the previous fixed 2x render scale
+    MIN_DPI: 72, // Oversized pages are not downscaled below this
+    MAX_DPI: 600,
+    DEFAULT_JPEG_QUALITY: 85,
+  },
+  TESSERACT: {
+    DEFAULT_LANGUAGE: 'eng',
+    MAX_FILE_SIZE: 50 * 1024 * 1024, // 50MB, local processing has no API limit
   }
 } as const;
\ No newline at end of file
@@ -0,0 +1,131 @@
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { randomUUID } from 'crypto';
+import { API_CONFIG } from './constants';
+import type { BoundingBox, DocumentAsset } from './ocr-provider';
+
+// Image embedded in a document as returned by the OCR provider
+export interface AssetInput {
+  // Name the page markdown refers to, e.g. img-0.jpeg
+  name: string;
+  pageNumber: number;
+  // data: URL or bare base64
+  data: string;
+  boundingBox?: BoundingBox;
+}
+
+const MIME_TYPES: Record<string, string> = {
+  '.png': 'image/png',
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.gif': 'image/gif',
+  '.webp': 'image/webp'
+};
+
+// Ids are "<uuid>_<name>"; anything else could escape the store directory
+const ASSET_ID_PATTERN = /^[0-9a-f-]{36}_[\w.-]+$/;
+
+// Assets are kept as files in one directory; ASSETS_PATH overrides its location
+function getStoreDir(): string {
+  return process.env.ASSETS_PATH || path.join(process.cwd(), 'data', 'assets');
+}
+
+export function getAssetUrl(id: string): string {
+  return `/api/assets?id=${encodeURIComponent(id)}`;
+}
+
+// Image already written to disk, e.g. a rendered page
+export interface AssetFileInput {
+  name: string;
+  pageNumber: number;
+  filePath: string;
+}
+
+// Stores the images of one document; they share an id prefix
+export async function saveAssets(inputs: AssetInput[]): Promise<DocumentAsset[]> {
+  if (inputs.length === 0) {
+    return [];
+  }
+
+  const storeDir = getStoreDir();
+  await fs.mkdir(storeDir, { recursive: true });
+  const documentId = randomUUID();
+  void deleteExpiredAssets().catch(error => console.error('Error deleting expired assets:', error));
+
+  return Promise.all(inputs.map(async input => {
+    const id = toAssetId(documentId, input.name);
+    const dataUrl = input.data.match(/^data:([^;]+);base64,([\s\S]*)$/);
+    await fs.writeFile(path.join(storeDir, id), Buffer.from(dataUrl ? dataUrl[2] : input.data, 'base64'));
+
+    return {
+      id,
+      name: input.name,
+      pageNumber: input.pageNumber,
+      mimeType: dataUrl?.[1] || getMimeType(input.name),
+      url: getAssetUrl(id),
+      boundingBox: input.boundingBox
+    };
+  }));
+}
+
+// Copies image files into the store; they share an id prefix
+export async function saveAssetFiles(inputs: AssetFileInput[]): Promise<DocumentAsset[]> {
+  if (inputs.length === 0) {
+    return [];
+  }
+
+  const storeDir = getStoreDir();
+  await fs.mkdir(storeDir, { recursive: true });
+  const documentId = randomUUID();
+  void deleteExpiredAssets().catch(error => console.error('Error deleting expired assets:', error));
+
+  return Promise.all(inputs.map(async input => {
+    const id = toAssetId(documentId, input.name);
+    await fs.copyFile(input.filePath, path.join(storeDir, id));
+    return { id, name: input.name, pageNumber: input.pageNumber, mimeType: getMimeType(input.name), url: getAssetUrl(id) };
+  }));
+}
+
+// Returns undefined for unknown or malformed ids
+export async function readAsset(id: string): Promise<{ data: Buffer; mimeType: string } | undefined> {
+  if (!ASSET_ID_PATTERN.test(id)) {
+    return undefined;
+  }
+
+  try {
+    return { data: await fs.readFile(path.join(getStoreDir(), id)), mimeType: getMimeType(id) };
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return undefined;
+    }
+    throw error;
+  }
+}
+
+// Removes assets written longer ago than the retention period
+async function deleteExpiredAssets(): Promise<void> {
+  const storeDir = getStoreDir();
+  const cutoff = Date.now() - API_CONFIG.ASSETS.RETENTION_HOURS * 60 * 60 * 1000;
+
+  let deleted = 0;
+  for (const name of await fs.readdir(storeDir)) {
+    const filePath = path.join(storeDir, name);
+    const stats = await fs.stat(filePath).catch(() => undefined);
+    if (stats?.isFile() && stats.mtimeMs < cutoff) {
+      await fs.rm(filePath, { force: true });
+      deleted++;
+    }
+  }
+
+  if (deleted > 0) {
+    console.log(`Deleted ${deleted} expired asset${deleted !== 1 ? 's' : ''}`);
+  }
+}
+
+function toAssetId(documentId: string, name: string): string {
+  return `${documentId}_${name.replace(/[^\w.-]/g, '_')}`;
+}
+
+function getMimeType(name: string): string {
+  return MIME_TYPES[path.extname(name).toLowerCase()] || 'application/octet-stream';
+}
@@ -0,0 +1,314 @@
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { randomUUID } from 'crypto';
+import { API_CONFIG } from './constants';
+import { runExtraction } from './extraction-request';
+import type { ExtractionResult, PreparedExtraction } from './extraction-request';
+import { hasUploadedFileExpired } from './ocr-provider';
+import type { ExtractionProgressEvent } from './ocr-provider';
+
+export type ExtractionJobStatus = 'queued' | 'running' | 'succeeded' | 'failed';
+
+export interface ExtractionPageError {
+  pageNumber: number;
+  message: string;
+}
+
+export interface ExtractionJob {
+  id: string;
+  providerId: string;
+  filename: string;
+  size: number;
+  status: ExtractionJobStatus;
+  // ISO timestamps
+  createdAt: string;
+  updatedAt: string;
+  // Known once the provider has worked out which pages it will process
+  pagesTotal?: number;
+  // Pages finished so far, including the ones that failed
+  pagesCompleted: number;
+  pageErrors: ExtractionPageError[];
+  // Why the whole job failed
+  error?: string;
+  // Whether the result came from the result cache
+  cached?: boolean;
+  // Server process that runs the job
+  ownerPid?: number;
+}
+
+// Streamed to subscribers: job snapshots when the status changes, and the provider's progress events
+export type ExtractionJobMessage = { type: 'job'; job: ExtractionJob } | ExtractionProgressEvent;
+
+export type ExtractionJobListener = (message: ExtractionJobMessage) => void;
+
+// A job started by this server process, with the progress so far for late subscribers
+interface RunningJob {
+  job: ExtractionJob;
+  events: ExtractionProgressEvent[];
+  listeners: Set<ExtractionJobListener>;
+}
+
+// Job ids are UUIDs; anything else could escape the store directory
+const JOB_ID_PATTERN = /^[0-9a-f-]{36}$/;
+
+interface JobRegistry {
+  // Jobs started by this server process; the store has every job, including older ones
+  activeJobs: Map<string, RunningJob>;
+  // Status writes per job, chained so a late write never overwrites a newer one
+  pendingWrites: Map<string, Promise<void>>;
+  // Marks the jobs a previous server process left unfinished, once per process
+  orphanSweep?: Promise<void>;
+}
+
+// Route bundles can each load their own copy of this module, so the registry lives on globalThis
+const globalJobs = globalThis as typeof globalThis & { extractionJobRegistry?: JobRegistry };
+const registry: JobRegistry = globalJobs.extractionJobRegistry || (globalJobs.extractionJobRegistry = {
+  activeJobs: new Map(),
+  pendingWrites: new Map()
+});
+const { activeJobs, pendingWrites } = registry;
+
+// Jobs and their results are kept as JSON files in one directory; EXTRACTION_JOBS_PATH overrides its location
+function getStoreDir(): string {
+  return process.env.EXTRACTION_JOBS_PATH || path.join(process.cwd(), 'data', 'jobs');
+}
+
+function getJobPath(id: string): string {
+  return path.join(getStoreDir(), `${id}.json`);
+}
+
+function getResultPath(id: string): string {
+  return path.join(getStoreDir(), `${id}.result.json`);
+}
+
+// Starts the extraction in the background and returns the queued job right away
+export async function submitExtractionJob(extraction: PreparedExtraction): Promise<ExtractionJob> {
+  await fs.mkdir(getStoreDir(), { recursive: true });
+  await sweepOrphanedJobs();
+
+  const now = new Date().toISOString();
+  const job: ExtractionJob = {
+    id: randomUUID(),
+    providerId: extraction.provider.descriptor.id,
+    filename: extraction.filename,
+    size: extraction.size,
+    status: 'queued',
+    createdAt: now,
+    updatedAt: now,
+    pagesCompleted: 0,
+    pageErrors: [],
+    ownerPid: process.pid
+  };
+  activeJobs.set(job.id, { job, events: [], listeners: new Set() });
+  await saveJob(job);
+
+  console.log(`Queued extraction job ${job.id} for ${job.filename}`);
+  void processJob(job, extraction);
+  void deleteExpiredJobs().catch(error => console.error('Error deleting expired extraction jobs:', error));
+
+  return { ...job };
+}
+
+// Returns undefined for unknown or malformed ids
+export async function getExtractionJob(id: string): Promise<ExtractionJob | undefined> {
+  if (!JOB_ID_PATTERN.test(id)) {
+    return undefined;
+  }
+
+  const active = activeJobs.get(id);
+  if (active) {
+    return snapshotJob(active.job);
+  }
+
+  await sweepOrphanedJobs();
+  return readJson<ExtractionJob>(getJobPath(id));
+}
+
+// Replays the running job's state and progress to `listener`, then forwards new messages until the job finishes.
+// Returns the unsubscribe function, or undefined when the job is not running in this process.
+export function subscribeToExtractionJob(id: string, listener: ExtractionJobListener): (() => void) | undefined {
+  const active = activeJobs.get(id);
+  if (!active) {
+    return undefined;
+  }
+
+  listener({ type: 'job', job: snapshotJob(active.job) });
+  active.events.forEach(listener);
+  active.listeners.add(listener);
+  return () => {
+    active.listeners.delete(listener);
+  };
+}
+
+// Returns undefined unless the job succeeded
+export async function getExtractionJobResult(id: string): Promise<ExtractionResult | undefined> {
+  if (!JOB_ID_PATTERN.test(id)) {
+    return undefined;
+  }
+
+  const result = await readJson<ExtractionResult>(getResultPath(id));
+  // The uploaded copy may have been deleted since, so the result no longer offers direct Q&A on it
+  if (result?.metadata.uploadedFile && hasUploadedFileExpired(result.metadata.uploadedFile)) {
+    delete result.metadata.uploadedFile;
+  }
+  return result;
+}
+
+async function processJob(job: ExtractionJob, extraction: PreparedExtraction): Promise<void> {
+  updateJob(job, { status: 'running' });
+
+  try {
+    const result = await runExtraction(extraction, event => recordProgress(job, event));
+    await fs.writeFile(getResultPath(job.id), JSON.stringify(result));
+    updateJob(job, { status: 'succeeded', cached: result.cached });
+    console.log(`Extraction job ${job.id} succeeded`);
+  } catch (error) {
+    console.error(`Extraction job ${job.id} failed:`, error);
+    updateJob(job, { status: 'failed', error: error instanceof Error ? error.message : 'Failed to process document' });
+  }
+
+  // Later reads come from the store, which now has the final state
+  await pendingWrites.get(job.id);
+  activeJobs.delete(job.id);
+}
+
+function recordProgress(job: ExtractionJob, event: ExtractionProgressEvent): void {
+  const active = activeJobs.get(job.id);
+  if (active) {
+    active.events.push(event);
+    notifyListeners(active, event);
+  }
+
+  if (event.type === 'rasterized') {
+    updateJob(job, { pagesTotal: event.pageNumbers.length, pagesCompleted: 0, pageErrors: [] });
+  } else if (event.type === 'pageDone') {
+    updateJob(job, { pagesCompleted: job.pagesCompleted + 1 });
+  } else if (event.type === 'pageFailed') {
+    updateJob(job, {
+      pagesCompleted: job.pagesCompleted + 1,
+      pageErrors: [...job.pageErrors, { pageNumber: event.pageNumber, message: event.error }]
+    });
+  }
+}
+
+function updateJob(job: ExtractionJob, changes: Partial<ExtractionJob>): void {
+  const statusChanged = changes.status !== undefined && changes.status !== job.status;
+  Object.assign(job, changes, { updatedAt: new Date().toISOString() });
+  const snapshot = { ...job };
+  const previous = pendingWrites.get(job.id) || Promise.resolve();
+  pendingWrites.set(job.id, previous
+    .then(() => saveJob(snapshot))
+    .catch(error => console.error(`Error saving extraction job ${job.id}:`, error)));
+
+  const active = activeJobs.get(job.id);
+  if (statusChanged && active) {
+    notifyListeners(active, { type: 'job', job: snapshotJob(job) });
+  }
+}
+
+// Called from the provider's progress callback, so a failing listener, e.g. a stream that
+// closed, is dropped instead of failing the page or job that reported progress
+function notifyListeners(active: RunningJob, message: ExtractionJobMessage): void {
+  active.listeners.forEach(listener => {
+    try {
+      listener(message);
+    } catch (error) {
+      console.error(`Dropping a listener of extraction job ${active.job.id}:`, error);
+      active.listeners.delete(listener);
+    }
+  });
+}
+
+// Fails the unfinished jobs whose server process is gone. Runs once per process, before this process
+// starts any job, so an unfinished job owned by this pid was left by an earlier process that had the same pid.
+function sweepOrphanedJobs(): Promise<void> {
+  if (!registry.orphanSweep) {
+    registry.orphanSweep = failOrphanedJobs()
+      .catch(error => console.error('Error checking for interrupted extraction jobs:', error));
+  }
+  return registry.orphanSweep;
+}
+
+async function failOrphanedJobs(): Promise<void> {
+  let names: string[];
+  try {
+    names = (await fs.readdir(getStoreDir())).filter(name => name.endsWith('.json') && !name.endsWith('.result.json'));
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return;
+    }
+    throw error;
+  }
+
+  for (const name of names) {
+    const job = await readJson<ExtractionJob>(path.join(getStoreDir(), name)).catch(() => undefined);
+    if (!job || (job.status !== 'queued' && job.status !== 'running') || activeJobs.has(job.id)) {
+      continue;
+    }
+    if (job.ownerPid !== undefined && job.ownerPid !== process.pid && isProcessRunning(job.ownerPid)) {
+      continue;
+    }
+
+    job.status = 'failed';
+    job.error = 'The server stopped before the job finished; submit the document again';
+    job.updatedAt = new Date().toISOString();
+    await saveJob(job);
+    console.log(`Marked interrupted extraction job ${job.id} as failed`);
+  }
+}
+
+function isProcessRunning(pid: number): boolean {
+  try {
+    // Signal 0 only checks that the process exists
+    process.kill(pid, 0);
+    return true;
+  } catch (error) {
+    // EPERM: it exists but belongs to another user
+    return (error as NodeJS.ErrnoException).code === 'EPERM';
+  }
+}
+
+function snapshotJob(job: ExtractionJob): ExtractionJob {
+  return { ...job, pageErrors: [...job.pageErrors] };
+}
+
+async function saveJob(job: ExtractionJob): Promise<void> {
+  await fs.writeFile(getJobPath(job.id), JSON.stringify(job, null, 2));
+}
+
+// Removes finished jobs and their results once they are older than the retention period
+async function deleteExpiredJobs(): Promise<void> {
+  const retentionMs = API_CONFIG.EXTRACTION_JOBS.RETENTION_HOURS * 60 * 60 * 1000;
+  const cutoff = new Date(Date.now() - retentionMs).toISOString();
+  const names = (await fs.readdir(getStoreDir())).filter(name => name.endsWith('.json') && !name.endsWith('.result.json'));
+
+  let deleted = 0;
+  for (const name of names) {
+    const id = name.slice(0, -'.json'.length);
+    if (activeJobs.has(id)) {
+      continue;
+    }
+
+    const job = await readJson<ExtractionJob>(getJobPath(id)).catch(() => undefined);
+    if (!job || job.updatedAt < cutoff) {
+      await fs.rm(getJobPath(id), { force: true });
+      await fs.rm(getResultPath(id), { force: true });
+      deleted++;
+    }
+  }
+
+  if (deleted > 0) {
+    console.log(`Deleted ${deleted} expired extraction job${deleted !== 1 ? 's' : ''}`);
+  }
+}
+
+async function readJson<T>(filePath: string): Promise<T | undefined> {
+  try {
+    return JSON.parse(await fs.readFile(filePath, 'utf-8')) as T;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return undefined;
+    }
+    throw error;
+  }
+}
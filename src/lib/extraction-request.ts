@@ -0,0 +1,115 @@
+import { getOcrProvider } from './providers/registry';
+import { parseOcrOptions } from './ocr-provider';
+import { parsePageSelection } from './page-selection';
+import { resolveQueries } from './query-sets';
+import { getResultCacheKey, withResultCache } from './result-cache';
+import type { ExtractionProgressListener, OcrDocument, OcrOptions, OcrProvider } from './ocr-provider';
+
+// An upload that passed validation, ready for its provider
+export interface PreparedExtraction {
+  provider: OcrProvider;
+  buffer: Buffer;
+  filename: string;
+  mimeType: string;
+  size: number;
+  options: OcrOptions;
+}
+
+// What /api/extract responds with and extraction jobs store as their result
+export type ExtractionResult = OcrDocument & {
+  filename: string;
+  size: number;
+  processor: string;
+  cached: boolean;
+  cachedAt?: string;
+};
+
+// Validates the provider, file and options of an extraction form; returns an error message for a bad request
+export async function prepareExtraction(formData: FormData): Promise<PreparedExtraction | { error: string }> {
+  const file = formData.get('file') as File;
+  const providerId = formData.get('provider') as string;
+
+  if (!providerId) {
+    return { error: 'No OCR provider specified' };
+  }
+
+  const provider = getOcrProvider(providerId);
+  if (!provider) {
+    return { error: `Unknown OCR provider: ${providerId}` };
+  }
+
+  if (!file) {
+    return { error: 'No file provided' };
+  }
+
+  const { descriptor } = provider;
+  const options = parseOcrOptions(formData);
+
+  if (options.pages) {
+    try {
+      parsePageSelection(options.pages);
+    } catch (error) {
+      return { error: error instanceof Error ? error.message : 'Invalid page selection' };
+    }
+  }
+
+  // A saved query set is expanded here, so providers only see the final query list
+  if (descriptor.supportedOptions.includes('queries') && (options.queries || options.querySet)) {
+    try {
+      options.queries = await resolveQueries(options);
+    } catch (error) {
+      return { error: error instanceof Error ? error.message : 'Invalid queries' };
+    }
+  }
+
+  if (!descriptor.acceptedMimeTypes.includes(file.type)) {
+    return {
+      error: `File type ${file.type || 'unknown'} is not supported by ${descriptor.label}. Accepted: ${descriptor.acceptedExtensions.join(', ')}`
+    };
+  }
+
+  if (file.size > descriptor.maxFileSize) {
+    return {
+      error: `File size (${Math.round(file.size / 1024 / 1024)}MB) exceeds the ${Math.round(descriptor.maxFileSize / 1024 / 1024)}MB limit for ${descriptor.label}`
+    };
+  }
+
+  const conflict = provider.validateOptions?.(options, { mimeType: file.type, size: file.size });
+  if (conflict) {
+    return { error: conflict };
+  }
+
+  const bytes = await file.arrayBuffer();
+  const buffer = Buffer.from(bytes);
+
+  // Validate PDF header
+  if (file.type === 'application/pdf' && buffer.subarray(0, 4).toString() !== '%PDF') {
+    return { error: 'Invalid PDF format - file does not have valid PDF header' };
+  }
+
+  return { provider, buffer, filename: file.name, mimeType: file.type, size: file.size, options };
+}
+
+export async function runExtraction(
+  extraction: PreparedExtraction,
+  onProgress?: ExtractionProgressListener
+): Promise<ExtractionResult> {
+  const { provider, buffer, filename, mimeType, size, options } = extraction;
+  console.log(`Processing file with ${provider.descriptor.label}: ${filename}, Type: ${mimeType}, Size: ${Math.round(size / 1024)}KB`);
+
+  // Same document, provider and options as an earlier upload: serve the stored result
+  const { value: document, cached, cachedAt } = await withResultCache(
+    getResultCacheKey(buffer, `provider:${provider.descriptor.id}`, options),
+    () => provider.extract({ buffer, filename, mimeType }, options, onProgress),
+    provider.isCachedResultUsable?.bind(provider)
+  );
+
+  return {
+    ...document,
+    filename,
+    size,
+    processor: document.metadata.processor,
+    cached,
+    cachedAt
+  };
+}
@@ -1,26 +1,31 @@
-import { DocumentProcessorServiceClient } from '@google-cloud/documentai';
+import { DocumentProcessorServiceClient, protos } from '@google-cloud/documentai';
 import { GoogleGenAI } from '@google/genai';
 import { MODELS, API_CONFIG } from './constants';
-
+import { countPdfPages } from './page-selection';
+import { formatStructuredData } from './ocr-provider';
+import type { BoundingBox, KeyValuePair, NormalizedEntityValue, SelectionStatus, TableCell, TableData, DocumentEntity, DocumentLine, StructuredData } from './ocr-provider';
+
+type DocumentAIDocument = protos.google.cloud.documentai.v1.IDocument;
+type DocumentAIPage = protos.google.cloud.documentai.v1.Document.IPage;
+type DocumentAILayout = protos.google.cloud.documentai.v1.Document.Page.ILayout;
+type DocumentAILine = protos.google.cloud.documentai.v1.Document.Page.ILine;
+type DocumentAIFormField = protos.google.cloud.documentai.v1.Document.Page.IFormField;
+type DocumentAITable = protos.google.cloud.documentai.v1.Document.Page.ITable;
+type DocumentAITableRow = protos.google.cloud.documentai.v1.Document.Page.Table.ITableRow;
+type DocumentAITableCell = protos.google.cloud.documentai.v1.Document.Page.Table.ITableCell;
+type DocumentAIToken = protos.google.cloud.documentai.v1.Document.Page.IToken;
+type DocumentAIEntity = protos.google.cloud.documentai.v1.Document.IEntity;
+type DocumentAINormalizedValue = protos.google.cloud.documentai.v1.Document.Entity.INormalizedValue;
+type DocumentAITextAnchor = protos.google.cloud.documentai.v1.Document.ITextAnchor;
+type DocumentAIBoundingPoly = protos.google.cloud.documentai.v1.IBoundingPoly;
+
+// Confidences are converted from Document AI's 0-1 scale to percentages
 export interface GoogleDocumentAIResult {
   text: string;
-  entities: Array<{
-    type: string;
-    mentionText: string;
-    confidence: number;
-    pageNumber: number;
-  }>;
-  keyValuePairs: Array<{
-    key: string;
-    value: string;
-    confidence: number;
-    pageNumber: number;
-  }>;
-  tables: Array<{
-    rows: string[][];
-    confidence: number;
-    pageNumber: number;
-  }>;
+  lines: DocumentLine[];
+  entities: DocumentEntity[];
+  keyValuePairs: KeyValuePair[];
+  tables: TableData[];
   totalPages: number;
   processorType: string;
 }
@@ -53,7 +58,8 @@ export class GoogleDocumentAIService {
     this.genAI = new GoogleGenAI({ apiKey: geminiApiKey });
   }
 
-  async processDocument(documentBuffer: Buffer, filename: string): Promise<GoogleDocumentAIResult> {
+  // `pages` limits processing to the given 1-based page numbers; results keep the original numbering
+  async processDocument(documentBuffer: Buffer, filename: string, pages?: number[]): Promise<GoogleDocumentAIResult> {
     try {
       console.log(`Processing document with Google Document AI: ${filename}, Size: ${Math.round(documentBuffer.length / 1024)}KB`);
 
@@ -80,7 +86,8 @@ export class GoogleDocumentAIService {
             'pages.form_fields', 
             'pages.tables'
           ]
-        }
+        },
+        ...(pages ? { processOptions: { individualPageSelector: { pages } } } : {})
       };
 
       // Process the document
@@ -91,7 +98,9 @@ export class GoogleDocumentAIService {
         throw new Error('No document returned from Google Document AI');
       }
 
-      return this.processDocumentAIResult(document, filename);
+      // Only the selected pages come back, but the count is the whole document's; `pages` is only set for PDFs
+      const totalPages = pages ? await countPdfPages(documentBuffer) : document.pages?.length || 1;
+      return this.processDocumentAIResult(document, filename, totalPages, pages);
 
     } catch (error) {
       console.error('Error processing document with Google Document AI:', error);
@@ -99,7 +108,7 @@ export class GoogleDocumentAIService {
     }
   }
 
-  async answerQuestionWithGemini(extractedText: string, structuredData: any, question: string): Promise<string> {
+  async answerQuestionWithGemini(extractedText: string, structuredData: StructuredData | null | undefined, question: string): Promise<string> {
     try {
       console.log(`Processing Q&A with Google Gemini: Question length: ${question.length} characters`);
 
@@ -148,46 +157,79 @@ export class GoogleDocumentAIService {
     }
   }
 
-  private processDocumentAIResult(document: any, filename: string): GoogleDocumentAIResult {
+  private processDocumentAIResult(document: DocumentAIDocument, filename: string, totalPages: number, selectedPages?: number[]): GoogleDocumentAIResult {
+    // Returned pages are only the selected ones, in order
+    const toPageNumber = (pageIndex: number) => selectedPages ? selectedPages[pageIndex] : pageIndex + 1;
+
     const text: string[] = [];
-    const entities: Array<{type: string, mentionText: string, confidence: number, pageNumber: number}> = [];
-    const keyValuePairs: Array<{key: string, value: string, confidence: number, pageNumber: number}> = [];
-    const tables: Array<{rows: string[][], confidence: number, pageNumber: number}> = [];
+    const lines: DocumentLine[] = [];
+    const entities: DocumentEntity[] = [];
+    const keyValuePairs: KeyValuePair[] = [];
+    const tables: TableData[] = [];
+    const documentText = document.text || '';
 
     // Extract main text
     if (document.text) {
       text.push(document.text);
     }
 
-    // Extract entities
+    // Extract entities with their nested properties, e.g. invoice line items
     if (document.entities) {
-      document.entities.forEach((entity: any, index: number) => {
-        entities.push({
-          type: entity.type || 'unknown',
-          mentionText: entity.mentionText || '',
-          confidence: entity.confidence || 0,
-          pageNumber: this.getEntityPageNumber(entity, document) || 1
-        });
+      document.entities.forEach((entity: DocumentAIEntity) => {
+        entities.push(this.toDocumentEntity(entity, document, toPageNumber));
       });
     }
 
     // Process pages for form fields and tables
     if (document.pages) {
-      document.pages.forEach((page: any, pageIndex: number) => {
-        const pageNumber = pageIndex + 1;
+      document.pages.forEach((page: DocumentAIPage, pageIndex: number) => {
+        const pageNumber = toPageNumber(pageIndex);
+
+        // Extract text lines with the tokens (words) inside them
+        if (page.lines) {
+          const words = (page.tokens || []).map((token: DocumentAIToken) => ({
+            range: this.getTextRange(token.layout),
+            word: {
+              text: this.extractFieldText(token.layout, documentText),
+              confidence: this.toPercent(token.layout?.confidence),
+              boundingBox: this.toBoundingBox(token.layout, page)
+            }
+          }));
+
+          page.lines.forEach((line: DocumentAILine) => {
+            const lineText = this.extractFieldText(line.layout, documentText);
+            if (lineText) {
+              const lineRange = this.getTextRange(line.layout);
+              lines.push({
+                text: lineText,
+                confidence: this.toPercent(line.layout?.confidence),
+                pageNumber,
+                boundingBox: this.toBoundingBox(line.layout, page),
+                words: words
+                  .filter(token => lineRange && token.range && token.range[0] >= lineRange[0] && token.range[0] < lineRange[1])
+                  .map(token => token.word)
+              });
+            }
+          });
+        }
 
         // Extract form fields (key-value pairs)
         if (page.formFields) {
-          page.formFields.forEach((field: any) => {
-            const key = this.extractFieldText(field.fieldName, document.text);
-            const value = this.extractFieldText(field.fieldValue, document.text);
-            
-            if (key || value) {
+          page.formFields.forEach((field: DocumentAIFormField) => {
+            const key = this.extractFieldText(field.fieldName, documentText);
+            const value = this.extractFieldText(field.fieldValue, documentText);
+            const selectionStatus = this.getSelectionStatus(field.valueType);
+
+            if (key || value || selectionStatus) {
               keyValuePairs.push({
                 key: key || 'Unknown',
-                value: value || '',
-                confidence: field.fieldName?.confidence || field.fieldValue?.confidence || 0,
-                pageNumber
+                // Checkbox values are the box glyph itself
+                value: selectionStatus ? '' : value || '',
+                confidence: this.toPercent(field.fieldName?.confidence || field.fieldValue?.confidence),
+                pageNumber,
+                keyBoundingBox: this.toBoundingBox(field.fieldName, page),
+                valueBoundingBox: this.toBoundingBox(field.fieldValue, page),
+                selectionStatus
               });
             }
           });
@@ -195,13 +237,14 @@ export class GoogleDocumentAIService {
 
         // Extract tables
         if (page.tables) {
-          page.tables.forEach((table: any) => {
-            const tableData = this.extractTableFromGoogleAI(table, document.text);
+          page.tables.forEach((table: DocumentAITable) => {
+            const tableData = this.extractTableFromGoogleAI(table, documentText, page);
             if (tableData.rows.length > 0) {
               tables.push({
-                rows: tableData.rows,
-                confidence: table.confidence || 0,
-                pageNumber
+                ...tableData,
+                confidence: this.toPercent(table.layout?.confidence),
+                pageNumber,
+                boundingBox: this.toBoundingBox(table.layout, page)
               });
             }
           });
@@ -209,10 +252,9 @@ export class GoogleDocumentAIService {
       });
     }
 
-    const totalPages = document.pages ? document.pages.length : 1;
-
     return {
       text: text.join('\n'),
+      lines,
       entities,
       keyValuePairs,
       tables,
@@ -221,103 +263,215 @@ export class GoogleDocumentAIService {
     };
   }
 
-  private extractFieldText(field: any, documentText: string): string {
-    if (!field || !field.textAnchor) {
-      return '';
+  private getSelectionStatus(valueType: string | null | undefined): SelectionStatus | undefined {
+    if (valueType === 'filled_checkbox') {
+      return 'selected';
     }
+    return valueType === 'unfilled_checkbox' ? 'not_selected' : undefined;
+  }
 
-    if (field.textAnchor.textSegments && field.textAnchor.textSegments.length > 0) {
-      const segment = field.textAnchor.textSegments[0];
-      const startIndex = parseInt(segment.startIndex) || 0;
-      const endIndex = parseInt(segment.endIndex) || startIndex;
-      
-      return documentText.substring(startIndex, endIndex).trim();
+  private toPercent(confidence: number | null | undefined): number {
+    return (confidence || 0) * 100;
+  }
+
+  // Document AI returns normalized vertices, or pixel vertices relative to page.dimension
+  private toBoundingBox(
+    layout: { boundingPoly?: DocumentAIBoundingPoly | null } | null | undefined,
+    page: DocumentAIPage | null | undefined
+  ): BoundingBox | undefined {
+    const poly = layout?.boundingPoly;
+    if (!poly) {
+      return undefined;
+    }
+
+    let points = (poly.normalizedVertices || []).map(vertex => ({ x: vertex.x || 0, y: vertex.y || 0 }));
+
+    const pageWidth = page?.dimension?.width;
+    const pageHeight = page?.dimension?.height;
+    if (points.length === 0 && poly.vertices && pageWidth && pageHeight) {
+      points = poly.vertices.map(vertex => ({
+        x: (vertex.x || 0) / pageWidth,
+        y: (vertex.y || 0) / pageHeight
+      }));
+    }
+
+    if (points.length === 0) {
+      return undefined;
+    }
+
+    const left = Math.min(...points.map(point => point.x));
+    const top = Math.min(...points.map(point => point.y));
+    return {
+      left,
+      top,
+      width: Math.max(...points.map(point => point.x)) - left,
+      height: Math.max(...points.map(point => point.y)) - top
+    };
+  }
+
+  // Start offset of a layout's first text segment and end offset of its last
+  private getTextRange(layout: DocumentAILayout | null | undefined): [number, number] | undefined {
+    const segments = this.getTextSegments(layout?.textAnchor);
+    if (segments.length === 0) {
+      return undefined;
+    }
+
+    return [segments[0][0], segments[segments.length - 1][1]];
+  }
+
+  private getTextSegments(textAnchor: DocumentAITextAnchor | null | undefined): [number, number][] {
+    return (textAnchor?.textSegments || []).map(segment => {
+      const startIndex = Number(segment.startIndex) || 0;
+      return [startIndex, Number(segment.endIndex) || startIndex];
+    });
+  }
+
+  // A field spanning several lines or columns has one segment per part, in reading order
+  private extractFieldText(field: { textAnchor?: DocumentAITextAnchor | null } | null | undefined, documentText: string): string {
+    return this.getTextSegments(field?.textAnchor)
+      .map(([startIndex, endIndex]) => documentText.substring(startIndex, endIndex))
+      .join('')
+      .trim();
+  }
+
+  // Properties without a page anchor are on their parent's page
+  private toDocumentEntity(
+    entity: DocumentAIEntity,
+    document: DocumentAIDocument,
+    toPageNumber: (pageIndex: number) => number,
+    parentPageNumber?: number
+  ): DocumentEntity {
+    const pageNumber = entity.pageAnchor?.pageRefs?.length || parentPageNumber === undefined
+      ? this.getEntityPageNumber(entity, toPageNumber)
+      : parentPageNumber;
+    const properties = (entity.properties || []).map(property => this.toDocumentEntity(property, document, toPageNumber, pageNumber));
+
+    return {
+      type: entity.type || 'unknown',
+      mentionText: entity.mentionText || this.extractFieldText(entity, document.text || ''),
+      confidence: this.toPercent(entity.confidence),
+      pageNumber,
+      boundingBox: this.getEntityBoundingBox(entity, document.pages),
+      normalizedValue: this.toNormalizedValue(entity.normalizedValue),
+      properties: properties.length > 0 ? properties : undefined
+    };
+  }
+
+  private toNormalizedValue(value: DocumentAINormalizedValue | null | undefined): NormalizedEntityValue | undefined {
+    if (!value) {
+      return undefined;
+    }
+
+    const normalized: NormalizedEntityValue = { text: value.text || '' };
+
+    const date = value.dateValue;
+    if (date?.year && date.month && date.day) {
+      normalized.date = [date.year, date.month, date.day].map((part, index) => String(part).padStart(index === 0 ? 4 : 2, '0')).join('-');
+    }
+
+    // Units may arrive as a string or Long for large amounts; nanos are billionths
+    const money = value.moneyValue;
+    if (money) {
+      normalized.money = {
+        amount: Number(money.units || 0) + (money.nanos || 0) / 1e9,
+        currencyCode: money.currencyCode || undefined
+      };
+    }
+
+    const address = value.addressValue;
+    if (address) {
+      normalized.address = {
+        addressLines: address.addressLines || [],
+        locality: address.locality || undefined,
+        administrativeArea: address.administrativeArea || undefined,
+        postalCode: address.postalCode || undefined,
+        regionCode: address.regionCode || undefined
+      };
     }
 
-    return '';
+    return normalized.text || normalized.date || normalized.money || normalized.address ? normalized : undefined;
   }
 
-  private extractTableFromGoogleAI(table: any, documentText: string): { rows: string[][] } {
+  private extractTableFromGoogleAI(
+    table: DocumentAITable,
+    documentText: string,
+    page: DocumentAIPage
+  ): Pick<TableData, 'rows' | 'cells' | 'headerRowCount'> {
     const rows: string[][] = [];
+    const cells: TableCell[] = [];
 
     if (!table.bodyRows) {
-      return { rows };
+      return { rows, cells };
     }
 
     // Process header row if exists
     if (table.headerRows && table.headerRows.length > 0) {
-      table.headerRows.forEach((headerRow: any) => {
-        const row = this.extractRowCells(headerRow, documentText);
-        if (row.length > 0) {
-          rows.push(row);
+      table.headerRows.forEach((headerRow: DocumentAITableRow) => {
+        const rowCells = this.extractRowCells(headerRow, documentText, page, rows.length);
+        if (rowCells.length > 0) {
+          rows.push(rowCells.map(cell => cell.text));
+          cells.push(...rowCells.map(cell => ({ ...cell, isHeader: true })));
         }
       });
     }
+    const headerRowCount = rows.length;
 
     // Process body rows
-    table.bodyRows.forEach((bodyRow: any) => {
-      const row = this.extractRowCells(bodyRow, documentText);
-      if (row.length > 0) {
-        rows.push(row);
+    table.bodyRows.forEach((bodyRow: DocumentAITableRow) => {
+      const rowCells = this.extractRowCells(bodyRow, documentText, page, rows.length);
+      if (rowCells.length > 0) {
+        rows.push(rowCells.map(cell => cell.text));
+        cells.push(...rowCells);
       }
     });
 
-    return { rows };
+    return { rows, cells, headerRowCount };
   }
 
-  private extractRowCells(row: any, documentText: string): string[] {
-    const cells: string[] = [];
+  private extractRowCells(row: DocumentAITableRow, documentText: string, page: DocumentAIPage, rowIndex: number): TableCell[] {
+    const cells: TableCell[] = [];
 
     if (row.cells) {
-      row.cells.forEach((cell: any) => {
-        const cellText = this.extractFieldText(cell.layout, documentText);
-        cells.push(cellText);
+      row.cells.forEach((cell: DocumentAITableCell, columnIndex: number) => {
+        cells.push({
+          rowIndex,
+          columnIndex,
+          text: this.extractFieldText(cell.layout, documentText),
+          confidence: this.toPercent(cell.layout?.confidence),
+          boundingBox: this.toBoundingBox(cell.layout, page)
+        });
       });
     }
 
     return cells;
   }
 
-  private getEntityPageNumber(entity: any, document: any): number {
+  private getEntityPageNumber(entity: DocumentAIEntity, toPageNumber: (pageIndex: number) => number): number {
     if (!entity.pageAnchor || !entity.pageAnchor.pageRefs || entity.pageAnchor.pageRefs.length === 0) {
-      return 1;
+      return toPageNumber(0);
     }
 
     const pageRef = entity.pageAnchor.pageRefs[0];
-    return (pageRef.page || 0) + 1; // Convert from 0-based to 1-based
+    return toPageNumber(Number(pageRef.page) || 0); // Page refs are 0-based indices into document.pages
+  }
+
+  private getEntityBoundingBox(entity: DocumentAIEntity, pages: DocumentAIPage[] | null | undefined): BoundingBox | undefined {
+    const pageRef = entity.pageAnchor?.pageRefs?.[0];
+    if (!pageRef) {
+      return undefined;
+    }
+
+    return this.toBoundingBox(pageRef, pages?.[Number(pageRef.page) || 0]);
   }
 
-  private buildGeminiPrompt(question: string, extractedText: string, structuredData?: any): string {
+  private buildGeminiPrompt(question: string, extractedText: string, structuredData?: StructuredData | null): string {
     let prompt = `Based on the following extracted data from a document, please answer the question.
 
 Document Text:
 ${extractedText}`;
 
-    // Add structured data if available
     if (structuredData) {
-      if (structuredData.entities && structuredData.entities.length > 0) {
-        prompt += `\n\nEntities:`;
-        structuredData.entities.forEach((entity: any) => {
-          prompt += `\n- ${entity.type}: ${entity.mentionText} (Page ${entity.pageNumber})`;
-        });
-      }
-
-      if (structuredData.keyValuePairs && structuredData.keyValuePairs.length > 0) {
-        prompt += `\n\nKey-Value Pairs:`;
-        structuredData.keyValuePairs.forEach((pair: any) => {
-          prompt += `\n- ${pair.key}: ${pair.value} (Page ${pair.pageNumber})`;
-        });
-      }
-
-      if (structuredData.tables && structuredData.tables.length > 0) {
-        prompt += `\n\nTables:`;
-        structuredData.tables.forEach((table: any, index: number) => {
-          prompt += `\n\nTable ${index + 1} (Page ${table.pageNumber}):`;
-          table.rows.forEach((row: string[], rowIndex: number) => {
-            prompt += `\n${rowIndex === 0 ? 'Headers: ' : 'Row: '}${row.join(' | ')}`;
-          });
-        });
-      }
+      prompt += formatStructuredData(structuredData);
     }
 
     prompt += `\n\nQuestion: ${question}
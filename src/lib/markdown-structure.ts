@@ -0,0 +1,84 @@
+import type { KeyValuePair, TableCell, TableData } from './ocr-provider';
+
+// Structured data recovered from OCR markdown, for providers that return no
+// geometry or scores. Items are left without a confidence, as the text carries none.
+
+const TABLE_SEPARATOR = /^\|?\s*:?-{3,}:?\s*(\|\s*:?-{3,}:?\s*)*\|?$/;
+const KEY_VALUE_LINE = /^([^\s:|#!>-][^:|]{0,59}):\s+(.+)$/;
+const MAX_KEY_WORDS = 8;
+
+// Pipe tables: a header row, a separator row, then body rows until the first non-table line
+export function parseMarkdownTables(markdown: string, pageNumber: number): TableData[] {
+  const lines = markdown.split('\n').map(line => line.trim());
+  const tables: TableData[] = [];
+
+  let index = 0;
+  while (index < lines.length) {
+    if (!lines[index].startsWith('|') || !TABLE_SEPARATOR.test(lines[index + 1] || '')) {
+      index++;
+      continue;
+    }
+
+    const tableLines = [lines[index]];
+    index += 2;
+    while (index < lines.length && lines[index].startsWith('|')) {
+      tableLines.push(lines[index]);
+      index++;
+    }
+
+    const parsedRows = tableLines.map(splitTableRow);
+    const columnCount = Math.max(...parsedRows.map(row => row.length));
+    const rows = parsedRows.map(row => [...row, ...new Array<string>(columnCount - row.length).fill('')]);
+
+    const cells: TableCell[] = rows.flatMap((row, rowIndex) => row.map((text, columnIndex) => ({
+      rowIndex,
+      columnIndex,
+      text,
+      isHeader: rowIndex === 0 || undefined
+    })));
+
+    tables.push({ rows, cells, headerRowCount: 1, pageNumber });
+  }
+
+  return tables;
+}
+
+// "Label: value" lines outside tables, with or without bold labels and list bullets
+export function parseMarkdownKeyValuePairs(markdown: string, pageNumber: number): KeyValuePair[] {
+  const pairs: KeyValuePair[] = [];
+
+  markdown.split('\n').forEach(rawLine => {
+    const line = stripInlineMarkdown(rawLine.trim().replace(/^[-*+]\s+/, ''));
+    if (!line || line.startsWith('|') || line.startsWith('#') || line.startsWith('!')) {
+      return;
+    }
+
+    const match = line.match(KEY_VALUE_LINE);
+    if (!match || /https?$/i.test(match[1]) || match[1].trim().split(/\s+/).length > MAX_KEY_WORDS) {
+      return;
+    }
+
+    pairs.push({ key: match[1].trim(), value: match[2].trim(), pageNumber });
+  });
+
+  return pairs;
+}
+
+function splitTableRow(line: string): string[] {
+  // Split on pipes that are not escaped, then drop the empty edges of "| a | b |"
+  const cells = line
+    .replace(/\\\|/g, '\u0000')
+    .split('|')
+    .map(cell => stripInlineMarkdown(cell.replace(/\u0000/g, '|').replace(/<br\s*\/?>/gi, ' ').trim()));
+  if (cells[0] === '') {
+    cells.shift();
+  }
+  if (cells[cells.length - 1] === '') {
+    cells.pop();
+  }
+  return cells;
+}
+
+function stripInlineMarkdown(text: string): string {
+  return text.replace(/(\*\*|__)(.*?)\1/g, '$2').replace(/`([^`]*)`/g, '$1');
+}
@@ -1,15 +1,48 @@
 import { Mistral } from '@mistralai/mistralai';
+import { MistralError } from '@mistralai/mistralai/models/errors';
 import { MODELS, API_CONFIG } from './constants';
+import { saveAssets } from './document-assets';
+import type { AssetInput } from './document-assets';
+import { parseMarkdownKeyValuePairs, parseMarkdownTables } from './markdown-structure';
+import { countPdfPages } from './page-selection';
+import type { BoundingBox, DocumentAsset, KeyValuePair, TableData, UploadedFileInfo } from './ocr-provider';
 
-export interface MistralFileInfo {
+export type MistralFileInfo = UploadedFileInfo;
+
+// OCR file this app uploaded, as listed by the files endpoint
+export interface MistralUploadedFile {
   id: string;
   filename: string;
-  signedUrl: string;
+  sizeBytes: number;
+  // ISO timestamps; no deletion time when retention is disabled
+  createdAt: string;
+  deleteAfter?: string;
+}
+
+// Time of the last retention sweep in this server process
+let lastRetentionSweep = 0;
+
+export interface MistralOCRPage {
+  pageNumber: number;
+  markdown: string;
+}
+
+// Page as returned by OCR, with the images its markdown refers to
+interface MistralOCRPageWithImages extends MistralOCRPage {
+  images: AssetInput[];
 }
 
 export interface MistralOCRResult {
   text: string;
+  pages: MistralOCRPage[];
+  // Parsed from each page's markdown
+  tables: TableData[];
+  keyValuePairs: KeyValuePair[];
+  // Embedded images, stored for retrieval by URL
+  assets: DocumentAsset[];
   fileInfo: MistralFileInfo;
+  // Pages in the whole document, also when only some were selected
+  totalPages: number;
 }
 
 export class MistralOCRService {
@@ -36,7 +69,7 @@ export class MistralOCRService {
       // Upload file to Mistral
       const uploadedFile = await this.client.files.upload({
         file: {
-          fileName: filename,
+          fileName: `${API_CONFIG.MISTRAL.FILE_NAME_PREFIX}${filename}`,
           content: fileBuffer,
         },
         purpose: "ocr"
@@ -44,15 +77,14 @@ export class MistralOCRService {
 
       console.log(`File uploaded successfully. File ID: ${uploadedFile.id}`);
 
-      // Get signed URL for the uploaded file
-      const signedUrl = await this.client.files.getSignedUrl({
-        fileId: uploadedFile.id,
-      });
+      // Old uploads are cleaned up in the background; a failed sweep is retried on a later upload
+      this.deleteExpiredFiles().catch(error => console.error('Error deleting expired Mistral files:', error));
 
       return {
         id: uploadedFile.id,
         filename: filename,
-        signedUrl: signedUrl.url
+        signedUrl: await this.getSignedUrl(uploadedFile.id),
+        expiresAt: this.getDeleteAfter(uploadedFile.createdAt)
       };
 
     } catch (error) {
@@ -61,7 +93,114 @@ export class MistralOCRService {
     }
   }
 
+  // Fresh signed URL for a stored file, so callers only need to keep the file id.
+  // Returns undefined when the file no longer exists, e.g. after the retention period.
+  async getFileInfo(fileId: string): Promise<MistralFileInfo | undefined> {
+    try {
+      const file = await this.client.files.retrieve({ fileId });
+      return {
+        id: file.id,
+        filename: this.stripFileNamePrefix(file.filename),
+        signedUrl: await this.getSignedUrl(file.id),
+        expiresAt: this.getDeleteAfter(file.createdAt)
+      };
+    } catch (error) {
+      if (this.isNotFoundError(error)) {
+        return undefined;
+      }
+      console.error('Error retrieving Mistral file:', error);
+      throw new Error(`Failed to retrieve Mistral file: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  // OCR files this app uploaded, newest first; other files of the API key are left out
+  async listFiles(): Promise<MistralUploadedFile[]> {
+    try {
+      const files: MistralUploadedFile[] = [];
+      const pageSize = 100;
+
+      for (let page = 0; ; page++) {
+        const response = await this.client.files.list({ page, pageSize, purpose: 'ocr' });
+        response.data.filter(file => this.isUploadedByApp(file.filename)).forEach(file => {
+          files.push(this.toUploadedFile(file));
+        });
+
+        if (response.data.length < pageSize) {
+          break;
+        }
+      }
+
+      return files.sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+    } catch (error) {
+      console.error('Error listing Mistral files:', error);
+      throw new Error(`Failed to list Mistral files: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  // Returns undefined when the file does not exist or this app did not upload it
+  async getUploadedFile(fileId: string): Promise<MistralUploadedFile | undefined> {
+    try {
+      const file = await this.client.files.retrieve({ fileId });
+      return this.isUploadedByApp(file.filename) ? this.toUploadedFile(file) : undefined;
+    } catch (error) {
+      if (this.isNotFoundError(error)) {
+        return undefined;
+      }
+      console.error('Error retrieving Mistral file:', error);
+      throw new Error(`Failed to retrieve Mistral file: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  // Returns false when the file does not exist
+  async deleteFile(fileId: string): Promise<boolean> {
+    try {
+      await this.client.files.delete({ fileId });
+      console.log(`Deleted Mistral file ${fileId}`);
+      return true;
+    } catch (error) {
+      if (this.isNotFoundError(error)) {
+        return false;
+      }
+      console.error('Error deleting Mistral file:', error);
+      throw new Error(`Failed to delete Mistral file: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  // Deletes this app's OCR files older than the retention period, at most once per sweep interval.
+  // Does nothing unless MISTRAL_FILE_RETENTION_HOURS is set. Returns the ids of the deleted files.
+  async deleteExpiredFiles(): Promise<string[]> {
+    if (this.getRetentionHours() <= 0 || Date.now() - lastRetentionSweep < API_CONFIG.MISTRAL.RETENTION_SWEEP_INTERVAL_MS) {
+      return [];
+    }
+    lastRetentionSweep = Date.now();
+
+    const now = new Date().toISOString();
+    const expired = (await this.listFiles()).filter(file => file.deleteAfter && file.deleteAfter < now);
+    const deleted: string[] = [];
+    for (const file of expired) {
+      if (await this.deleteFile(file.id)) {
+        deleted.push(file.id);
+      }
+    }
+
+    if (deleted.length > 0) {
+      console.log(`Deleted ${deleted.length} Mistral file(s) older than ${this.getRetentionHours()} hours`);
+    }
+    return deleted;
+  }
+
   async extractTextFromUploadedFile(fileInfo: MistralFileInfo): Promise<string> {
+    const pages = await this.extractPagesFromUploadedFile(fileInfo);
+    return this.joinPages(pages);
+  }
+
+  // `pages` limits OCR to the given 1-based page numbers; results keep the original numbering
+  async extractPagesFromUploadedFile(fileInfo: MistralFileInfo, pages?: number[]): Promise<MistralOCRPage[]> {
+    const ocrPages = await this.runOcr(fileInfo, pages, false);
+    return ocrPages.map(page => ({ pageNumber: page.pageNumber, markdown: page.markdown }));
+  }
+
+  private async runOcr(fileInfo: MistralFileInfo, pages: number[] | undefined, includeImages: boolean): Promise<MistralOCRPageWithImages[]> {
     try {
       console.log(`Processing OCR for uploaded file: ${fileInfo.filename} (ID: ${fileInfo.id})`);
 
@@ -72,25 +211,37 @@ export class MistralOCRService {
           type: "document_url",
           documentUrl: fileInfo.signedUrl
         },
-        includeImageBase64: false
+        // Mistral expects 0-based page indices
+        ...(pages ? { pages: pages.map(page => page - 1) } : {}),
+        includeImageBase64: includeImages
       });
       
       if (!ocrResponse.pages || ocrResponse.pages.length === 0) {
         throw new Error('No text extraction results returned from Mistral OCR');
       }
 
-      // Combine markdown content from all pages
-      const extractedText = ocrResponse.pages
-        .map(page => page.markdown || '')
-        .join('\n\n')
-        .trim();
+      // Keep the markdown content of each page with its original page number
+      const ocrPages = ocrResponse.pages.map(page => {
+        const pageNumber = page.index + 1;
+        const images = (page.images || [])
+          .filter(image => image.imageBase64)
+          .map(image => ({
+            name: image.id,
+            pageNumber,
+            data: image.imageBase64!,
+            boundingBox: this.toBoundingBox(image, page.dimensions)
+          }));
+
+        return { pageNumber, markdown: page.markdown || '', images };
+      });
+      const totalLength = ocrPages.reduce((sum, page) => sum + page.markdown.trim().length, 0);
       
-      if (!extractedText) {
+      if (totalLength === 0) {
         throw new Error('No text found in document');
       }
 
-      console.log(`Mistral OCR extracted ${extractedText.length} characters of text from ${ocrResponse.pages.length} pages`);
-      return extractedText;
+      console.log(`Mistral OCR extracted ${totalLength} characters of text from ${ocrResponse.pages.length} pages`);
+      return ocrPages;
 
     } catch (error) {
       console.error('Error extracting text with Mistral OCR:', error);
@@ -98,15 +249,26 @@ export class MistralOCRService {
     }
   }
 
-  async processDocument(fileBuffer: Buffer, filename: string): Promise<MistralOCRResult> {
+  async processDocument(fileBuffer: Buffer, filename: string, pages?: number[]): Promise<MistralOCRResult> {
     try {
       // Upload file and extract text
       const fileInfo = await this.uploadFile(fileBuffer, filename);
-      const text = await this.extractTextFromUploadedFile(fileInfo);
+      const ocrPages = await this.runOcr(fileInfo, pages, true);
+
+      const assets = await saveAssets(ocrPages.flatMap(page => page.images));
+      const tables = ocrPages.flatMap(page => parseMarkdownTables(page.markdown, page.pageNumber));
+      const keyValuePairs = ocrPages.flatMap(page => parseMarkdownKeyValuePairs(page.markdown, page.pageNumber));
+      console.log(`Parsed ${tables.length} tables and ${keyValuePairs.length} key-value pairs, stored ${assets.length} images`);
 
       return {
-        text,
-        fileInfo
+        text: this.joinPages(ocrPages),
+        pages: ocrPages.map(page => ({ pageNumber: page.pageNumber, markdown: page.markdown })),
+        tables,
+        keyValuePairs,
+        assets,
+        fileInfo,
+        // `pages` is only set for PDFs
+        totalPages: pages ? await countPdfPages(fileBuffer) : ocrPages.length
       };
     } catch (error) {
       console.error('Error processing document:', error);
@@ -163,6 +325,71 @@ export class MistralOCRService {
     }
   }
 
+  private async getSignedUrl(fileId: string): Promise<string> {
+    const signedUrl = await this.client.files.getSignedUrl({
+      fileId,
+      expiry: API_CONFIG.MISTRAL.SIGNED_URL_EXPIRY_HOURS
+    });
+    return signedUrl.url;
+  }
+
+  private getRetentionHours(): number {
+    const configured = parseFloat(process.env.MISTRAL_FILE_RETENTION_HOURS || '');
+    return Number.isNaN(configured) ? API_CONFIG.MISTRAL.FILE_RETENTION_HOURS : configured;
+  }
+
+  // When the retention sweep may delete a file created at `createdAt` (in seconds)
+  private getDeleteAfter(createdAt: number): string | undefined {
+    const retentionMs = this.getRetentionHours() * 60 * 60 * 1000;
+    return retentionMs > 0 ? new Date(createdAt * 1000 + retentionMs).toISOString() : undefined;
+  }
+
+  private toUploadedFile(file: { id: string; filename: string; sizeBytes: number; createdAt: number }): MistralUploadedFile {
+    return {
+      id: file.id,
+      filename: this.stripFileNamePrefix(file.filename),
+      sizeBytes: file.sizeBytes,
+      // createdAt is in seconds
+      createdAt: new Date(file.createdAt * 1000).toISOString(),
+      deleteAfter: this.getDeleteAfter(file.createdAt)
+    };
+  }
+
+  private isUploadedByApp(filename: string): boolean {
+    return filename.startsWith(API_CONFIG.MISTRAL.FILE_NAME_PREFIX);
+  }
+
+  private stripFileNamePrefix(filename: string): string {
+    const prefix = API_CONFIG.MISTRAL.FILE_NAME_PREFIX;
+    return filename.startsWith(prefix) ? filename.slice(prefix.length) : filename;
+  }
+
+  private isNotFoundError(error: unknown): boolean {
+    return error instanceof MistralError && error.statusCode === 404;
+  }
+
+  // Image corners are in pixels of the page screenshot
+  private toBoundingBox(
+    image: { topLeftX: number | null; topLeftY: number | null; bottomRightX: number | null; bottomRightY: number | null },
+    dimensions: { width: number; height: number } | null
+  ): BoundingBox | undefined {
+    if (!dimensions?.width || !dimensions.height || image.topLeftX === null || image.topLeftY === null ||
+      image.bottomRightX === null || image.bottomRightY === null) {
+      return undefined;
+    }
+
+    return {
+      left: image.topLeftX / dimensions.width,
+      top: image.topLeftY / dimensions.height,
+      width: (image.bottomRightX - image.topLeftX) / dimensions.width,
+      height: (image.bottomRightY - image.topLeftY) / dimensions.height
+    };
+  }
+
+  private joinPages(pages: MistralOCRPage[]): string {
+    return pages.map(page => page.markdown).join('\n\n').trim();
+  }
+
   // Legacy methods for backward compatibility (will be deprecated)
   async extractTextFromPdf(pdfBuffer: Buffer, filename: string): Promise<string> {
     const result = await this.processDocument(pdfBuffer, filename);
@@ -0,0 +1,764 @@
+// Normalized document model shared by every OCR provider.
+// Confidences are always expressed as percentages (0-100), whatever scale the
+// underlying engine reports. Bounding boxes are fractions (0-1) of the page
+// width and height measured from its top-left corner, whatever units the
+// engine reports; they are omitted when the engine returns no geometry.
+
+export interface BoundingBox {
+  left: number;
+  top: number;
+  width: number;
+  height: number;
+}
+
+// State of a checkbox or radio button
+export type SelectionStatus = 'selected' | 'not_selected';
+
+export interface KeyValuePair {
+  key: string;
+  // Text next to a checkbox, empty for a bare checkbox
+  value: string;
+  // Unset when the provider gives no score, e.g. pairs recovered from markdown
+  confidence?: number;
+  pageNumber: number;
+  keyBoundingBox?: BoundingBox;
+  valueBoundingBox?: BoundingBox;
+  // Set when the value is a checkbox
+  selectionStatus?: SelectionStatus;
+}
+
+export interface FormField {
+  fieldName: string;
+  fieldValue: string;
+  confidence: number;
+  pageNumber: number;
+}
+
+export interface TableCell {
+  // 0-based position in TableData.rows; a merged cell sits at its top-left position
+  rowIndex: number;
+  columnIndex: number;
+  text: string;
+  // Unset when the provider gives no score
+  confidence?: number;
+  boundingBox?: BoundingBox;
+  // Rows and columns covered by a merged cell; 1 when unset
+  rowSpan?: number;
+  columnSpan?: number;
+  // Column header cell
+  isHeader?: boolean;
+  // Set when the cell holds a checkbox
+  selectionStatus?: SelectionStatus;
+}
+
+export interface TableData {
+  // Full grid; positions covered by a merged cell other than its top-left one are empty.
+  // Checkboxes appear as "[X]" or "[ ]" in front of the cell text
+  rows: string[][];
+  // Unset when the provider gives no score, e.g. tables recovered from markdown
+  confidence?: number;
+  pageNumber: number;
+  boundingBox?: BoundingBox;
+  // One entry per cell, merged cells once with their spans
+  cells?: TableCell[];
+  // Number of leading rows holding column headers; when unset the first row is the header
+  headerRowCount?: number;
+  title?: string;
+  footer?: string;
+}
+
+export interface MoneyValue {
+  amount: number;
+  // ISO 4217 code, e.g. USD
+  currencyCode?: string;
+}
+
+export interface PostalAddressValue {
+  addressLines: string[];
+  locality?: string;
+  administrativeArea?: string;
+  postalCode?: string;
+  // CLDR region code, e.g. US
+  regionCode?: string;
+}
+
+// Value a processor parsed an entity's mention into; only the matching typed field is set
+export interface NormalizedEntityValue {
+  // Canonical text form, e.g. 2024-03-01 or 1250.00 USD
+  text: string;
+  // ISO date (YYYY-MM-DD)
+  date?: string;
+  money?: MoneyValue;
+  address?: PostalAddressValue;
+}
+
+export interface DocumentEntity {
+  type: string;
+  mentionText: string;
+  confidence: number;
+  pageNumber: number;
+  boundingBox?: BoundingBox;
+  normalizedValue?: NormalizedEntityValue;
+  // Child entities, e.g. the description and amount of an invoice line_item
+  properties?: DocumentEntity[];
+}
+
+// Natural-language question answered during extraction, e.g. "What is the policy number?"
+export interface DocumentQuery {
+  text: string;
+  // Short name the answer is reported under, e.g. POLICY_NUMBER
+  alias?: string;
+}
+
+export interface QueryAnswer {
+  query: string;
+  alias?: string;
+  answer: string;
+  confidence: number;
+  pageNumber: number;
+  boundingBox?: BoundingBox;
+}
+
+// Field of an invoice or receipt, e.g. TOTAL or VENDOR_NAME
+export interface ExpenseField {
+  // Normalized type from the engine; OTHER when the label was not recognized
+  type: string;
+  // Label as printed on the document, e.g. "Amount due"
+  label?: string;
+  value: string;
+  confidence: number;
+  pageNumber: number;
+  // ISO 4217 code, e.g. USD
+  currency?: string;
+  // Groups the field belongs to, e.g. VENDOR or RECEIVER for names and addresses
+  groups?: string[];
+  boundingBox?: BoundingBox;
+}
+
+export interface ExpenseLineItem {
+  // Columns of the item (ITEM, QUANTITY, UNIT_PRICE, PRICE, PRODUCT_CODE, ...)
+  fields: ExpenseField[];
+  // Whole row as printed
+  row?: string;
+}
+
+export interface ExpenseLineItemGroup {
+  index: number;
+  lineItems: ExpenseLineItem[];
+}
+
+// Best-scoring value of the common summary fields, as printed
+export interface ExpenseSummary {
+  vendorName?: string;
+  vendorAddress?: string;
+  receiverName?: string;
+  invoiceId?: string;
+  invoiceDate?: string;
+  dueDate?: string;
+  subtotal?: string;
+  tax?: string;
+  total?: string;
+  amountDue?: string;
+  currency?: string;
+}
+
+// One invoice or receipt; a page can hold several receipts
+export interface ExpenseDocument {
+  index: number;
+  pageNumber: number;
+  summary: ExpenseSummary;
+  summaryFields: ExpenseField[];
+  lineItemGroups: ExpenseLineItemGroup[];
+}
+
+// Field of a passport or driver's license, e.g. DATE_OF_BIRTH or MRZ_CODE
+export interface IdentityField {
+  // Type from the engine; NAME for the joined name parts
+  type: string;
+  // Value as printed
+  value: string;
+  confidence: number;
+  // ISO date (YYYY-MM-DD) for date fields the engine could normalize
+  date?: string;
+}
+
+// Normalized fields of an identity document; unset when not found on it
+export interface IdentitySummary {
+  name?: IdentityField;
+  documentNumber?: IdentityField;
+  dateOfBirth?: IdentityField;
+  dateOfIssue?: IdentityField;
+  expirationDate?: IdentityField;
+  address?: IdentityField;
+  // Machine-readable zone of passports
+  mrz?: IdentityField;
+}
+
+// One identity document; each page image is analyzed as its own document
+export interface IdentityDocument {
+  index: number;
+  pageNumber: number;
+  // ID_TYPE as detected, e.g. PASSPORT or DRIVER LICENSE FRONT
+  documentType?: string;
+  summary: IdentitySummary;
+  // Every field found, including the ones not in the summary
+  fields: IdentityField[];
+}
+
+export interface DocumentWord {
+  text: string;
+  confidence: number;
+  boundingBox?: BoundingBox;
+}
+
+export interface DocumentLine {
+  text: string;
+  confidence: number;
+  pageNumber: number;
+  boundingBox?: BoundingBox;
+  words?: DocumentWord[];
+}
+
+export type LayoutElementType =
+  | 'title'
+  | 'sectionHeader'
+  | 'text'
+  | 'list'
+  | 'header'
+  | 'footer'
+  | 'pageNumber'
+  | 'table'
+  | 'figure'
+  | 'keyValue'
+  | 'signature';
+
+// A block of the page layout; OcrDocument.layout lists them in reading order
+export interface LayoutElement {
+  type: LayoutElementType;
+  // Empty for signatures and figures without text
+  text: string;
+  confidence: number;
+  pageNumber: number;
+  boundingBox?: BoundingBox;
+  // List items, for lists
+  items?: string[];
+}
+
+export type TextSource = 'pdf' | 'ocr';
+
+export interface PageTextSource {
+  pageNumber: number;
+  source: TextSource;
+}
+
+export interface DocumentPage {
+  pageNumber: number;
+  text: string;
+  lines: DocumentLine[];
+  // Whether the text came from the PDF's embedded text layer or from OCR
+  textSource?: TextSource;
+  // Resolution the page was rasterized at for OCR
+  renderDpi?: number;
+  // Preprocessing steps run on the page image before OCR
+  preprocessing?: PreprocessingRecord[];
+}
+
+export interface PageRenderInfo {
+  pageNumber: number;
+  // Unset for uploaded images, which are not rasterized
+  dpi?: number;
+  preprocessing?: PreprocessingRecord[];
+}
+
+// Image embedded in the document, stored so clients can fetch it from `url`
+export interface DocumentAsset {
+  id: string;
+  // Name the page markdown refers to it by, e.g. img-0.jpeg
+  name: string;
+  pageNumber: number;
+  mimeType: string;
+  url: string;
+  boundingBox?: BoundingBox;
+}
+
+// Remote copy of the document kept by providers that support direct Q&A
+export interface UploadedFileInfo {
+  id: string;
+  filename: string;
+  signedUrl: string;
+  // ISO timestamp after which the provider's cleanup may delete the file; unset when it is kept
+  expiresAt?: string;
+}
+
+// Results stored past the file's retention still name it, but it can no longer be asked about
+export function hasUploadedFileExpired(file: UploadedFileInfo): boolean {
+  return file.expiresAt !== undefined && file.expiresAt < new Date().toISOString();
+}
+
+export interface ProviderMetadata {
+  providerId: string;
+  processor: string;
+  processingTimeMs: number;
+  uploadedFile?: UploadedFileInfo;
+}
+
+export interface OcrDocument {
+  text: string;
+  pages: DocumentPage[];
+  keyValuePairs: KeyValuePair[];
+  tables: TableData[];
+  entities: DocumentEntity[];
+  // Answers to OcrOptions.queries, when the provider supports them
+  queryAnswers?: QueryAnswer[];
+  // Titles, paragraphs, lists, signatures etc. in reading order, when the provider detects layout
+  layout?: LayoutElement[];
+  // Invoices and receipts found by expense analysis
+  expenses?: ExpenseDocument[];
+  // Passports and driver's licenses found by identity analysis
+  identityDocuments?: IdentityDocument[];
+  // Images embedded in the pages, when the provider extracts them
+  assets?: DocumentAsset[];
+  totalPages: number;
+  metadata: ProviderMetadata;
+}
+
+// Structured data sent to the Q&A services alongside the extracted text
+export interface StructuredData {
+  keyValuePairs?: KeyValuePair[];
+  formFields?: FormField[];
+  tables?: TableData[];
+  entities?: DocumentEntity[];
+  queryAnswers?: QueryAnswer[];
+  expenses?: ExpenseDocument[];
+  identityDocuments?: IdentityDocument[];
+  totalPages?: number;
+}
+
+export type RasterColorMode = 'color' | 'grayscale';
+export type RasterFormat = 'png' | 'jpeg';
+
+// How PDF pages are rendered before OCR; unset fields use API_CONFIG.RASTER defaults
+export interface RasterOptions {
+  dpi?: number;
+  colorMode?: RasterColorMode;
+  format?: RasterFormat;
+  // JPEG quality (1-100), ignored for PNG
+  jpegQuality?: number;
+}
+
+// Image cleanup steps; they always run in this order
+export const PREPROCESS_STEPS = ['orientation', 'deskew', 'autocrop', 'denoise', 'contrast', 'binarize'] as const;
+
+export type PreprocessStep = typeof PREPROCESS_STEPS[number];
+
+export interface PreprocessingRecord {
+  step: PreprocessStep;
+  // False when the step ran but left the image unchanged (e.g. no skew found)
+  applied: boolean;
+  detail?: string;
+}
+
+// Per-request options; providers ignore options they do not list in supportedOptions
+export interface OcrOptions {
+  // Use the embedded PDF text layer and only OCR image-only pages
+  hybrid?: boolean;
+  // Run the whole document as one asynchronous job instead of synchronous calls
+  asyncAnalysis?: boolean;
+  // Page selection such as "1-3,7,last"; page numbers in results stay the original ones
+  pages?: string;
+  raster?: RasterOptions;
+  // Cleanup steps run on page images between rasterization and OCR
+  preprocess?: PreprocessStep[];
+  // Questions answered during extraction
+  queries?: DocumentQuery[];
+  // Id of a saved query set whose queries are asked along with `queries`
+  querySet?: string;
+}
+
+export type OcrOptionName = keyof OcrOptions;
+
+// Reads OcrOptions from the multipart form fields sent by the UI
+export function parseOcrOptions(formData: FormData): OcrOptions {
+  return {
+    hybrid: formData.get('hybrid') === 'true',
+    asyncAnalysis: formData.get('asyncAnalysis') === 'true',
+    pages: (formData.get('pages') as string | null)?.trim() || undefined,
+    raster: parseRasterOptions(formData),
+    preprocess: parsePreprocessSteps(formData.get('preprocess') as string | null),
+    queries: parseQueries(formData.get('queries') as string | null),
+    querySet: (formData.get('querySet') as string | null)?.trim() || undefined
+  };
+}
+
+// Reads a JSON array of questions or { text, alias } objects, or one question per line
+function parseQueries(value: string | null): DocumentQuery[] | undefined {
+  if (!value?.trim()) {
+    return undefined;
+  }
+
+  let entries: unknown[];
+  try {
+    const parsed: unknown = JSON.parse(value);
+    entries = Array.isArray(parsed) ? parsed : [parsed];
+  } catch {
+    entries = value.split('\n');
+  }
+
+  const queries = entries
+    .map(entry => {
+      if (typeof entry === 'string') {
+        return { text: entry.trim() };
+      }
+      // Non-string aliases are kept as given so query validation can reject them
+      const alias = (entry as DocumentQuery)?.alias;
+      return { text: String((entry as DocumentQuery)?.text || '').trim(), alias: typeof alias === 'string' ? alias.trim() || undefined : alias };
+    })
+    .filter(query => query.text);
+  return queries.length > 0 ? queries : undefined;
+}
+
+// Reads a comma-separated step list such as "deskew,binarize"; unknown steps are ignored
+function parsePreprocessSteps(value: string | null): PreprocessStep[] | undefined {
+  const requested = (value || '').split(',').map(step => step.trim());
+  const steps = PREPROCESS_STEPS.filter(step => requested.includes(step));
+  return steps.length > 0 ? steps : undefined;
+}
+
+function parseRasterOptions(formData: FormData): RasterOptions {
+  const colorMode = formData.get('colorMode');
+  const format = formData.get('imageFormat');
+
+  return {
+    dpi: parseInt(formData.get('dpi') as string) || undefined,
+    colorMode: colorMode === 'grayscale' || colorMode === 'color' ? colorMode : undefined,
+    format: format === 'jpeg' || format === 'png' ? format : undefined,
+    jpegQuality: parseInt(formData.get('jpegQuality') as string) || undefined
+  };
+}
+
+export interface OcrProviderDescriptor {
+  id: string;
+  label: string;
+  description: string;
+  acceptedMimeTypes: string[];
+  acceptedExtensions: string[];
+  maxFileSize: number;
+  // True when the provider keeps an uploaded copy usable for direct document Q&A
+  supportsDirectQa: boolean;
+  supportedOptions: OcrOptionName[];
+}
+
+export interface OcrInput {
+  buffer: Buffer;
+  filename: string;
+  mimeType: string;
+}
+
+// What one finished page found
+export interface PageExtractionCounts {
+  characters: number;
+  lines: number;
+  keyValuePairs: number;
+  tables: number;
+}
+
+// A finished page's share of the result, usable before the whole document is done
+export interface PartialPageResult {
+  page: DocumentPage;
+  keyValuePairs: KeyValuePair[];
+  tables: TableData[];
+}
+
+// Reported while a provider works through a document page by page
+export type ExtractionProgressEvent =
+  // Page images are rendered and these pages are about to be processed;
+  // hybrid mode also lists the pages read from the text layer, and providers
+  // that process the whole document at once send it when their results arrive
+  | { type: 'rasterized'; pageNumbers: number[] }
+  | { type: 'pageStarted'; pageNumber: number }
+  | { type: 'pageDone'; pageNumber: number; counts: PageExtractionCounts; partial: PartialPageResult }
+  // The page was skipped or its OCR failed; the rest of the document goes on
+  | { type: 'pageFailed'; pageNumber: number; error: string }
+  // What a provider that processes the whole document in one request is waiting for
+  | { type: 'status'; message: string };
+
+export type ExtractionProgressListener = (event: ExtractionProgressEvent) => void;
+
+// The pageDone event for a page's lines and structured data
+export function buildPageDoneEvent(
+  pageNumber: number,
+  lines: DocumentLine[],
+  keyValuePairs: KeyValuePair[],
+  tables: TableData[],
+  render?: PageRenderInfo
+): ExtractionProgressEvent {
+  const page = buildPages(lines, undefined, undefined, render ? [render] : undefined)[0] || { pageNumber, text: '', lines: [] };
+  return {
+    type: 'pageDone',
+    pageNumber,
+    counts: { characters: page.text.trim().length, lines: lines.length, keyValuePairs: keyValuePairs.length, tables: tables.length },
+    partial: { page: { ...page, pageNumber }, keyValuePairs, tables }
+  };
+}
+
+// For providers that get every page back at once: reports the pages as done in one go,
+// so jobs still count pages and show partial results
+export function reportDocumentPages(
+  onProgress: ExtractionProgressListener | undefined,
+  document: Pick<OcrDocument, 'pages' | 'keyValuePairs' | 'tables'>
+): void {
+  if (!onProgress) {
+    return;
+  }
+
+  onProgress({ type: 'rasterized', pageNumbers: document.pages.map(page => page.pageNumber) });
+  document.pages.forEach(page => {
+    const keyValuePairs = document.keyValuePairs.filter(pair => pair.pageNumber === page.pageNumber);
+    const tables = document.tables.filter(table => table.pageNumber === page.pageNumber);
+    onProgress({
+      type: 'pageDone',
+      pageNumber: page.pageNumber,
+      counts: { characters: page.text.trim().length, lines: page.lines.length, keyValuePairs: keyValuePairs.length, tables: tables.length },
+      partial: { page, keyValuePairs, tables }
+    });
+  });
+}
+
+export interface OcrProvider {
+  readonly descriptor: OcrProviderDescriptor;
+  // `onProgress` hears about each page as it finishes, or about the whole document for providers that process it at once
+  extract(input: OcrInput, options?: OcrOptions, onProgress?: ExtractionProgressListener): Promise<OcrDocument>;
+  // Whether a cached result can still be served, e.g. the remote copy it refers to still exists
+  isCachedResultUsable?(document: OcrDocument): Promise<boolean>;
+  // Why the options cannot be honored for this file, for options the provider would otherwise ignore
+  validateOptions?(options: OcrOptions, file: { mimeType: string; size: number }): string | undefined;
+}
+
+// Smallest box containing all the given boxes
+export function unionBoundingBoxes(boxes: (BoundingBox | undefined)[]): BoundingBox | undefined {
+  const present = boxes.filter((box): box is BoundingBox => box !== undefined);
+  if (present.length === 0) {
+    return undefined;
+  }
+
+  const left = Math.min(...present.map(box => box.left));
+  const top = Math.min(...present.map(box => box.top));
+  const right = Math.max(...present.map(box => box.left + box.width));
+  const bottom = Math.max(...present.map(box => box.top + box.height));
+  return { left, top, width: right - left, height: bottom - top };
+}
+
+// Entities and their properties depth-first; `path` is the index at each level, e.g. "2-0"
+export function flattenEntities(
+  entities: DocumentEntity[],
+  depth = 0,
+  parentPath?: string
+): { entity: DocumentEntity; depth: number; path: string }[] {
+  return entities.flatMap((entity, index) => {
+    const path = parentPath === undefined ? `${index}` : `${parentPath}-${index}`;
+    return [{ entity, depth, path }, ...flattenEntities(entity.properties || [], depth + 1, path)];
+  });
+}
+
+// Plain-text form of a checkbox value, for places that only keep text
+export function withSelectionMark(text: string, status?: SelectionStatus): string {
+  if (!status) {
+    return text;
+  }
+
+  const mark = status === 'selected' ? '[X]' : '[ ]';
+  return text ? `${mark} ${text}` : mark;
+}
+
+// Markdown-like text of layout elements in reading order; page numbers are left out
+export function layoutToMarkdown(elements: LayoutElement[]): string {
+  return elements
+    .map(element => {
+      switch (element.type) {
+        case 'title':
+          return `# ${element.text}`;
+        case 'sectionHeader':
+          return `## ${element.text}`;
+        case 'list':
+          // OCR often keeps the bullet glyphs; replace them with Markdown ones
+          return (element.items || [element.text])
+            .map(item => `- ${item.replace(/^[•·▪◦*-]\s*/, '')}`)
+            .join('\n');
+        case 'signature':
+          return '[Signature]';
+        case 'pageNumber':
+          return '';
+        default:
+          return element.text;
+      }
+    })
+    .filter(block => block)
+    .join('\n\n');
+}
+
+// Header rows of a table, defaulting to the first row when the provider does not say
+export function getHeaderRowCount(table: TableData): number {
+  return table.headerRowCount ?? Math.min(1, table.rows.length);
+}
+
+// One label per column; multi-level headers are joined from the top, e.g. "2023 > Q1"
+export function getColumnHeaders(table: TableData): string[] {
+  const headerRowCount = getHeaderRowCount(table);
+  const columnCount = Math.max(0, ...table.rows.map(row => row.length));
+  const labels: string[][] = Array.from({ length: columnCount }, () => []);
+
+  if (table.cells) {
+    // Merged headers label every column they span, once
+    table.cells
+      .filter(cell => cell.rowIndex < headerRowCount && cell.text)
+      .sort((a, b) => a.rowIndex - b.rowIndex)
+      .forEach(cell => {
+        const end = Math.min(cell.columnIndex + (cell.columnSpan || 1), columnCount);
+        for (let column = cell.columnIndex; column < end; column++) {
+          labels[column].push(cell.text);
+        }
+      });
+  } else {
+    table.rows.slice(0, headerRowCount).forEach(row => {
+      row.forEach((text, column) => {
+        if (text) {
+          labels[column].push(text);
+        }
+      });
+    });
+  }
+
+  return labels.map(parts => parts.join(' > '));
+}
+
+// Structured data as prompt sections for the Q&A services, each starting on a new paragraph
+export function formatStructuredData(structuredData: StructuredData): string {
+  let text = '';
+
+  if (structuredData.entities && structuredData.entities.length > 0) {
+    text += `\n\nEntities:`;
+    // Properties are indented under their parent entity
+    flattenEntities(structuredData.entities).forEach(({ entity, depth }) => {
+      const normalized = entity.normalizedValue?.text && entity.normalizedValue.text !== entity.mentionText
+        ? ` [${entity.normalizedValue.text}]`
+        : '';
+      text += `\n${'  '.repeat(depth)}- ${entity.type}: ${entity.mentionText}${normalized} (Page ${entity.pageNumber})`;
+    });
+  }
+
+  if (structuredData.keyValuePairs && structuredData.keyValuePairs.length > 0) {
+    text += `\n\nKey-Value Pairs:`;
+    structuredData.keyValuePairs.forEach((pair) => {
+      text += `\n- ${pair.key}: ${withSelectionMark(pair.value, pair.selectionStatus)} (Page ${pair.pageNumber})`;
+    });
+  }
+
+  if (structuredData.queryAnswers && structuredData.queryAnswers.length > 0) {
+    text += `\n\nQuery Answers:`;
+    structuredData.queryAnswers.forEach((queryAnswer) => {
+      text += `\n- ${queryAnswer.query}: ${queryAnswer.answer} (Page ${queryAnswer.pageNumber})`;
+    });
+  }
+
+  if (structuredData.expenses && structuredData.expenses.length > 0) {
+    text += `\n\nExpense Documents:`;
+    structuredData.expenses.forEach((expense) => {
+      text += `\n\nExpense ${expense.index} (Page ${expense.pageNumber}):`;
+      expense.summaryFields.forEach((field) => {
+        text += `\n- ${field.type}${field.label ? ` ("${field.label}")` : ''}: ${field.value}`;
+      });
+      const lineItems = expense.lineItemGroups.flatMap(group => group.lineItems);
+      if (lineItems.length > 0) {
+        text += `\nLine Items:`;
+        lineItems.forEach((lineItem) => {
+          text += `\n- ${lineItem.fields.length > 0 ? lineItem.fields.map(field => `${field.type}: ${field.value}`).join(', ') : lineItem.row}`;
+        });
+      }
+    });
+  }
+
+  if (structuredData.identityDocuments && structuredData.identityDocuments.length > 0) {
+    text += `\n\nIdentity Documents:`;
+    structuredData.identityDocuments.forEach((identityDocument) => {
+      text += `\n\nIdentity Document ${identityDocument.index} (Page ${identityDocument.pageNumber}):`;
+      identityDocument.fields.forEach((field) => {
+        text += `\n- ${field.type}: ${field.value}${field.date ? ` (${field.date})` : ''}`;
+      });
+    });
+  }
+
+  if (structuredData.tables && structuredData.tables.length > 0) {
+    text += `\n\nTables:`;
+    structuredData.tables.forEach((table, index) => {
+      text += `\n\nTable ${index + 1} (Page ${table.pageNumber}):`;
+      if (table.title) {
+        text += `\nTitle: ${table.title}`;
+      }
+      const headerRowCount = getHeaderRowCount(table);
+      if (headerRowCount > 0) {
+        text += `\nHeaders: ${getColumnHeaders(table).join(' | ')}`;
+      }
+      table.rows.slice(headerRowCount).forEach(row => {
+        text += `\nRow: ${row.join(' | ')}`;
+      });
+      if (table.footer) {
+        text += `\nFooter: ${table.footer}`;
+      }
+    });
+  }
+
+  if (structuredData.formFields && structuredData.formFields.length > 0) {
+    text += `\n\nForm Fields:`;
+    structuredData.formFields.forEach((field) => {
+      text += `\n- ${field.fieldName}: ${field.fieldValue} (Page ${field.pageNumber})`;
+    });
+  }
+
+  return text;
+}
+
+// Groups lines into pages, keeping page order and the provided per-page text when available
+export function buildPages(
+  lines: DocumentLine[],
+  pageTexts?: Map<number, string>,
+  pageSources?: PageTextSource[],
+  pageRenders?: PageRenderInfo[]
+): DocumentPage[] {
+  const pages = new Map<number, DocumentPage>();
+
+  pageTexts?.forEach((text, pageNumber) => {
+    pages.set(pageNumber, { pageNumber, text, lines: [] });
+  });
+
+  lines.forEach(line => {
+    let page = pages.get(line.pageNumber);
+    if (!page) {
+      page = { pageNumber: line.pageNumber, text: '', lines: [] };
+      pages.set(line.pageNumber, page);
+    }
+    page.lines.push(line);
+  });
+
+  pages.forEach(page => {
+    if (!page.text) {
+      page.text = page.lines.map(line => line.text).join('\n');
+    }
+  });
+
+  pageSources?.forEach(({ pageNumber, source }) => {
+    const page = pages.get(pageNumber);
+    if (page) {
+      page.textSource = source;
+    }
+  });
+
+  pageRenders?.forEach(({ pageNumber, dpi, preprocessing }) => {
+    const page = pages.get(pageNumber);
+    if (page) {
+      page.renderDpi = dpi;
+      page.preprocessing = preprocessing;
+    }
+  });
+
+  return Array.from(pages.values()).sort((a, b) => a.pageNumber - b.pageNumber);
+}
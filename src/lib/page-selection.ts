@@ -0,0 +1,96 @@
+import { PDFDocument } from 'pdf-lib';
+
+// One item of a page selection; 'last' resolves once the page count is known
+export interface PageRange {
+  start: number | 'last';
+  end: number | 'last';
+}
+
+// Parses selections like "1-3,7,last" or "10-last". Throws on invalid syntax.
+export function parsePageSelection(selection: string): PageRange[] {
+  const items = selection.split(',').map(item => item.trim().toLowerCase()).filter(item => item);
+
+  if (items.length === 0) {
+    throw new Error('Page selection is empty');
+  }
+
+  return items.map(item => {
+    const bounds = item.split('-').map(bound => bound.trim());
+    if (bounds.length > 2) {
+      throw new Error(`Invalid page range "${item}"`);
+    }
+
+    const [start, end] = bounds.map(bound => parsePageBound(bound, item));
+    const range = { start, end: end ?? start };
+
+    if (typeof range.start === 'number' && typeof range.end === 'number' && range.start > range.end) {
+      throw new Error(`Invalid page range "${item}": start is after end`);
+    }
+    if (range.start === 'last' && range.end !== 'last') {
+      throw new Error(`Invalid page range "${item}": "last" can only end a range`);
+    }
+
+    return range;
+  });
+}
+
+// Resolves ranges to sorted, unique 1-based page numbers within the document
+export function resolvePageSelection(ranges: PageRange[], totalPages: number): number[] {
+  const pages = new Set<number>();
+
+  ranges.forEach(range => {
+    const start = range.start === 'last' ? totalPages : range.start;
+    const end = Math.min(range.end === 'last' ? totalPages : range.end, totalPages);
+    for (let page = start; page <= end; page++) {
+      pages.add(page);
+    }
+  });
+
+  if (pages.size === 0) {
+    throw new Error(`Page selection does not match any of the document's ${totalPages} pages`);
+  }
+
+  return Array.from(pages).sort((a, b) => a - b);
+}
+
+export async function countPdfPages(pdfBuffer: Buffer): Promise<number> {
+  const pdfDoc = await PDFDocument.load(pdfBuffer, { ignoreEncryption: true });
+  return pdfDoc.getPageCount();
+}
+
+// Resolves a raw selection against a PDF. Returns undefined when there is no
+// selection or it covers every page, so callers can keep their whole-document path.
+export async function selectPdfPages(pdfBuffer: Buffer, selection?: string): Promise<number[] | undefined> {
+  if (!selection) {
+    return undefined;
+  }
+
+  const totalPages = await countPdfPages(pdfBuffer);
+  const pages = resolvePageSelection(parsePageSelection(selection), totalPages);
+  return pages.length < totalPages ? pages : undefined;
+}
+
+// Page selection applies to PDFs; other files are processed whole. Page numbers
+// in the result stay the original ones, so callers keep them as they come back.
+export async function selectDocumentPages(buffer: Buffer, mimeType: string, selection?: string): Promise<number[] | undefined> {
+  return mimeType === 'application/pdf' ? selectPdfPages(buffer, selection) : undefined;
+}
+
+// Builds a new PDF holding only the given 1-based pages, in order
+export async function extractPdfPages(pdfBuffer: Buffer, pages: number[]): Promise<Buffer> {
+  const sourceDoc = await PDFDocument.load(pdfBuffer, { ignoreEncryption: true });
+  const targetDoc = await PDFDocument.create();
+  const copiedPages = await targetDoc.copyPages(sourceDoc, pages.map(page => page - 1));
+  copiedPages.forEach(page => targetDoc.addPage(page));
+  return Buffer.from(await targetDoc.save());
+}
+
+function parsePageBound(bound: string, item: string): number | 'last' {
+  if (bound === 'last') {
+    return 'last';
+  }
+  if (!/^\d+$/.test(bound) || parseInt(bound) < 1) {
+    throw new Error(`Invalid page number "${bound}" in "${item}"`);
+  }
+  return parseInt(bound);
+}
@@ -0,0 +1,382 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+import { spawn } from 'child_process';
+import { API_CONFIG } from './constants';
+import { countPdfPages, parsePageSelection, resolvePageSelection } from './page-selection';
+import { saveAssetFiles } from './document-assets';
+import type { PageRenderInfo, PreprocessingRecord, PreprocessStep, RasterOptions } from './ocr-provider';
+
+interface PdfConversionResult {
+  success: boolean;
+  pages?: number;
+  // Pages in the whole document, including the ones not selected
+  total_pages?: number;
+  image_paths?: string[];
+  page_numbers?: number[];
+  dpis?: number[];
+  oversized_pages?: number[];
+  error?: string;
+}
+
+interface FrameSplitResult {
+  success: boolean;
+  pages?: number;
+  image_paths?: string[];
+  page_numbers?: number[];
+  oversized_pages?: number[];
+  error?: string;
+}
+
+interface PreprocessResult {
+  success: boolean;
+  results?: { image_path: string; steps: PreprocessingRecord[]; scale: number; fits: boolean }[];
+  error?: string;
+}
+
+// One image after preprocessing
+export interface PreprocessedImage {
+  steps: PreprocessingRecord[];
+  // Below 1 when the cleaned image had to be downscaled to fit the size limit
+  scale: number;
+  fits: boolean;
+}
+
+export interface PdfPageImage {
+  pageNumber: number;
+  imagePath: string;
+  // Resolution the page was finally rendered at, after any downscaling; unset for uploaded image frames
+  dpi?: number;
+  // Still over maxImageBytes after downscaling
+  oversized: boolean;
+  preprocessing?: PreprocessingRecord[];
+}
+
+// How page images are produced for OCR, chosen per request
+export interface PageImageSettings {
+  raster?: RasterOptions;
+  preprocess?: PreprocessStep[];
+}
+
+export interface PdfImageOptions extends PageImageSettings {
+  // 1-based page numbers to rasterize; all pages when omitted
+  pages?: number[];
+  // Pages rendering above this size are re-rendered at a lower DPI until they fit
+  maxImageBytes?: number;
+}
+
+export interface ImageFrameOptions {
+  // Page selection such as "1-3,last", resolved against the frame count
+  pageSelection?: string;
+  preprocess?: PreprocessStep[];
+  // Frames encoding above this size are downscaled until they fit
+  maxImageBytes?: number;
+}
+
+// Page image stored for display, e.g. in the page viewer; `url` serves it through /api/assets
+export interface PageImageData {
+  pageNumber: number;
+  url: string;
+}
+
+export interface PageImageRenderOptions {
+  // 1-based PDF pages to render; all pages when omitted
+  pages?: number[];
+  // Frame selection for images, e.g. "1-3,last"
+  pageSelection?: string;
+  raster?: RasterOptions;
+  preprocess?: PreprocessStep[];
+  // DPI the extraction rendered each PDF page at, from its `renderDpi`
+  renderDpis?: Record<number, number>;
+}
+
+export function createTempPath(prefix: string, extension = ''): string {
+  return path.join(os.tmpdir(), `${prefix}_${Date.now()}_${Math.random().toString(36).substr(2, 9)}${extension}`);
+}
+
+// Rasterizes a PDF with scripts/pdf_to_images.py and hands the page images to
+// the callback in page order, with the document's page count. Temp files are
+// removed once the callback settles.
+export async function withPdfImages<T>(
+  pdfBuffer: Buffer,
+  callback: (images: PdfPageImage[], totalPages: number) => Promise<T>,
+  options: PdfImageOptions = {}
+): Promise<T> {
+  const tempPdfPath = createTempPath('temp', '.pdf');
+  const tempOutputDir = createTempPath('pdf_images');
+
+  console.log(`Converting PDF to images using Python script: ${tempPdfPath}`);
+
+  try {
+    // Write PDF to temp file
+    fs.writeFileSync(tempPdfPath, pdfBuffer);
+
+    // Call Python script to convert PDF to images
+    const scriptPath = path.join(process.cwd(), 'scripts', 'pdf_to_images.py');
+    const args = [tempPdfPath, tempOutputDir];
+    if (options.pages && options.pages.length > 0) {
+      args.push('--pages', options.pages.join(','));
+    }
+    args.push(...buildRasterArgs(options.raster || {}, options.maxImageBytes));
+    const conversionResult = await runPythonScript<PdfConversionResult>(scriptPath, args);
+
+    if (!conversionResult.success) {
+      throw new Error(`PDF conversion failed: ${conversionResult.error}`);
+    }
+
+    console.log(`PDF conversion completed - generated ${conversionResult.pages} pages`);
+
+    if (!conversionResult.image_paths || conversionResult.image_paths.length === 0) {
+      throw new Error('No images generated from PDF conversion');
+    }
+
+    const pageNumbers = conversionResult.page_numbers;
+    const images = conversionResult.image_paths.map((imagePath, index): PdfPageImage => {
+      const pageNumber = pageNumbers ? pageNumbers[index] : index + 1;
+      return {
+        pageNumber,
+        imagePath,
+        dpi: conversionResult.dpis?.[index] ?? API_CONFIG.RASTER.DEFAULT_DPI,
+        oversized: conversionResult.oversized_pages?.includes(pageNumber) ?? false
+      };
+    });
+
+    await applyPreprocessing(images, options.preprocess, options.maxImageBytes);
+
+    return await callback(images, conversionResult.total_pages ?? images.length);
+
+  } finally {
+    // Clean up temp files
+    cleanupTempFiles(tempPdfPath, tempOutputDir);
+  }
+}
+
+// Splits an uploaded image with scripts/image_to_frames.py: each frame of a
+// multi-page TIFF is a page, PNG and JPEG files are one page. The callback gets
+// the selected frames in page order; temp files are removed once it settles.
+export async function withImageFrames<T>(
+  imageBuffer: Buffer,
+  filename: string,
+  callback: (images: PdfPageImage[], totalPages: number) => Promise<T>,
+  options: ImageFrameOptions = {}
+): Promise<T> {
+  const tempImagePath = createTempPath('temp', path.extname(filename).toLowerCase() || '.png');
+  const tempOutputDir = createTempPath('image_frames');
+
+  try {
+    fs.writeFileSync(tempImagePath, imageBuffer);
+
+    const scriptPath = path.join(process.cwd(), 'scripts', 'image_to_frames.py');
+    const args = [tempImagePath, tempOutputDir];
+    if (options.maxImageBytes) {
+      args.push('--max-bytes', String(options.maxImageBytes));
+    }
+    const splitResult = await runPythonScript<FrameSplitResult>(scriptPath, args);
+
+    if (!splitResult.success) {
+      throw new Error(`Image conversion failed: ${splitResult.error}`);
+    }
+
+    if (!splitResult.image_paths || splitResult.image_paths.length === 0) {
+      throw new Error('No frames found in image');
+    }
+
+    console.log(`Image split into ${splitResult.pages} page(s)`);
+
+    const pageNumbers = splitResult.page_numbers;
+    const allImages = splitResult.image_paths.map((imagePath, index): PdfPageImage => {
+      const pageNumber = pageNumbers ? pageNumbers[index] : index + 1;
+      return {
+        pageNumber,
+        imagePath,
+        oversized: splitResult.oversized_pages?.includes(pageNumber) ?? false
+      };
+    });
+
+    const totalPages = allImages.length;
+    const selectedPages = options.pageSelection
+      ? resolvePageSelection(parsePageSelection(options.pageSelection), totalPages)
+      : undefined;
+    const images = selectedPages
+      ? allImages.filter(image => selectedPages.includes(image.pageNumber))
+      : allImages;
+
+    await applyPreprocessing(images, options.preprocess, options.maxImageBytes);
+
+    return await callback(images, totalPages);
+
+  } finally {
+    cleanupTempFiles(tempImagePath, tempOutputDir);
+  }
+}
+
+// The size limit is checked again after preprocessing, which can grow an image that fit when rendered
+async function applyPreprocessing(images: PdfPageImage[], steps?: PreprocessStep[], maxImageBytes?: number): Promise<void> {
+  if (!steps || steps.length === 0) {
+    return;
+  }
+
+  const preprocessed = await preprocessImages(images.map(image => image.imagePath), steps, maxImageBytes);
+  images.forEach((image, index) => {
+    const { steps: records, scale, fits } = preprocessed[index];
+    image.preprocessing = records;
+    if (scale < 1 && image.dpi) {
+      image.dpi = Math.round(image.dpi * scale);
+    }
+    image.oversized = image.oversized || !fits;
+  });
+}
+
+// Renders the document's pages for display and stores them as assets. PDF pages are
+// rendered with the extraction's raster settings at the DPI it recorded for each page,
+// so resolution-dependent preprocessing (deskew, crop margins) produces the image the
+// bounding boxes were measured on. Images are split into frames.
+export async function renderPageImages(
+  buffer: Buffer,
+  filename: string,
+  mimeType: string,
+  options: PageImageRenderOptions = {}
+): Promise<PageImageData[]> {
+  const storePages = async (images: PdfPageImage[]) => {
+    const assets = await saveAssetFiles(images.map(image => ({
+      name: `page-${image.pageNumber}${path.extname(image.imagePath)}`,
+      pageNumber: image.pageNumber,
+      filePath: image.imagePath
+    })));
+    return assets.map(asset => ({ pageNumber: asset.pageNumber, url: asset.url }));
+  };
+
+  if (mimeType !== 'application/pdf') {
+    return withImageFrames(buffer, filename, storePages, {
+      pageSelection: options.pageSelection,
+      preprocess: options.preprocess
+    });
+  }
+
+  // One rasterization per DPI; oversized pages were downscaled and differ from the rest
+  const defaultDpi = options.raster?.dpi || API_CONFIG.RASTER.DEFAULT_DPI;
+  const pages = options.pages || Array.from({ length: await countPdfPages(buffer) }, (_, index) => index + 1);
+  const pagesByDpi = new Map<number, number[]>();
+  pages.forEach(pageNumber => {
+    const dpi = options.renderDpis?.[pageNumber] || defaultDpi;
+    pagesByDpi.set(dpi, [...(pagesByDpi.get(dpi) || []), pageNumber]);
+  });
+
+  const rendered: PageImageData[] = [];
+  for (const [dpi, dpiPages] of Array.from(pagesByDpi.entries())) {
+    rendered.push(...await withPdfImages(buffer, storePages, {
+      pages: dpiPages,
+      raster: { ...options.raster, dpi },
+      preprocess: options.preprocess
+    }));
+  }
+  return rendered.sort((a, b) => a.pageNumber - b.pageNumber);
+}
+
+// Cleans up page images in place with scripts/preprocess_images.py, downscaling
+// any that end up above `maxImageBytes`. Results are in the order the paths were given.
+export async function preprocessImages(imagePaths: string[], steps: PreprocessStep[], maxImageBytes?: number): Promise<PreprocessedImage[]> {
+  console.log(`Preprocessing ${imagePaths.length} page images: ${steps.join(', ')}`);
+
+  const scriptPath = path.join(process.cwd(), 'scripts', 'preprocess_images.py');
+  const args = [...imagePaths, '--steps', steps.join(',')];
+  if (maxImageBytes) {
+    args.push('--max-bytes', String(maxImageBytes));
+  }
+  const result = await runPythonScript<PreprocessResult>(scriptPath, args);
+
+  if (!result.success || !result.results) {
+    throw new Error(`Image preprocessing failed: ${result.error}`);
+  }
+
+  return result.results.map(image => ({ steps: image.steps, scale: image.scale, fits: image.fits }));
+}
+
+export function toPageRenderInfo(image: PdfPageImage): PageRenderInfo {
+  return { pageNumber: image.pageNumber, dpi: image.dpi, preprocessing: image.preprocessing };
+}
+
+function buildRasterArgs(raster: RasterOptions, maxImageBytes?: number): string[] {
+  const { MIN_DPI, MAX_DPI, DEFAULT_DPI, DEFAULT_JPEG_QUALITY } = API_CONFIG.RASTER;
+  const dpi = Math.min(Math.max(raster.dpi || DEFAULT_DPI, MIN_DPI), MAX_DPI);
+  const jpegQuality = Math.min(Math.max(raster.jpegQuality || DEFAULT_JPEG_QUALITY, 1), 100);
+
+  const args = [
+    '--dpi', String(dpi),
+    '--min-dpi', String(Math.min(MIN_DPI, dpi)),
+    '--color', raster.colorMode || 'color',
+    '--format', raster.format || 'png',
+    '--jpeg-quality', String(jpegQuality)
+  ];
+  if (maxImageBytes) {
+    args.push('--max-bytes', String(maxImageBytes));
+  }
+  return args;
+}
+
+export async function runPythonScript<T>(scriptPath: string, args: string[]): Promise<T> {
+  return new Promise((resolve, reject) => {
+    // Use Python from virtual environment if available
+    const venvPython = path.join(process.cwd(), 'scripts', 'venv', 'bin', 'python');
+    const pythonCmd = fs.existsSync(venvPython) ? venvPython : 'python3';
+
+    const pythonProcess = spawn(pythonCmd, [scriptPath, ...args]);
+    let output = '';
+    let errorOutput = '';
+
+    pythonProcess.stdout.on('data', (data) => {
+      output += data.toString();
+    });
+
+    pythonProcess.stderr.on('data', (data) => {
+      errorOutput += data.toString();
+    });
+
+    pythonProcess.on('close', (code) => {
+      if (code !== 0) {
+        reject(new Error(`Python script failed with code ${code}: ${errorOutput}`));
+        return;
+      }
+
+      try {
+        const result = JSON.parse(output.trim());
+        resolve(result);
+      } catch {
+        reject(new Error(`Failed to parse Python script output: ${output}`));
+      }
+    });
+
+    pythonProcess.on('error', (error) => {
+      reject(new Error(`Failed to spawn Python process: ${error.message}`));
+    });
+  });
+}
+
+export function cleanupTempFiles(tempFilePath: string, tempOutputDir?: string): void {
+  try {
+    // Remove input file
+    if (fs.existsSync(tempFilePath)) {
+      fs.unlinkSync(tempFilePath);
+    }
+
+    // Remove image files and directory
+    if (tempOutputDir && fs.existsSync(tempOutputDir)) {
+      const files = fs.readdirSync(tempOutputDir);
+      files.forEach(file => {
+        try {
+          fs.unlinkSync(path.join(tempOutputDir, file));
+        } catch {
+          // Continue cleanup even if individual files fail
+        }
+      });
+
+      try {
+        fs.rmdirSync(tempOutputDir);
+      } catch {
+        // Directory might not be empty, ignore
+      }
+    }
+  } catch {
+    // Silently fail cleanup to avoid masking main errors
+  }
+}
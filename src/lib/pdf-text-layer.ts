@@ -0,0 +1,78 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { cleanupTempFiles, createTempPath, runPythonScript } from './pdf-images';
+import type { BoundingBox } from './ocr-provider';
+
+export interface PdfTextLayerWord {
+  text: string;
+  boundingBox: BoundingBox;
+}
+
+export interface PdfTextLayerLine {
+  text: string;
+  boundingBox: BoundingBox;
+  words: PdfTextLayerWord[];
+}
+
+// [left, top, width, height] as fractions of the page size
+type ScriptBox = [number, number, number, number];
+
+interface ScriptWord {
+  text: string;
+  box: ScriptBox;
+}
+
+export interface PdfTextLayerPage {
+  pageNumber: number;
+  lines: PdfTextLayerLine[];
+  textChars: number;
+  imageCoverage: number;
+  // False for image-only or garbled pages that still need OCR
+  usable: boolean;
+}
+
+interface PdfTextLayerResult {
+  success: boolean;
+  pages?: Array<{
+    page_number: number;
+    lines: Array<ScriptWord & { words: ScriptWord[] }>;
+    text_chars: number;
+    image_coverage: number;
+    usable: boolean;
+  }>;
+  error?: string;
+}
+
+// Reads the embedded text layer of every page with scripts/pdf_text_layer.py
+export async function readPdfTextLayer(pdfBuffer: Buffer): Promise<PdfTextLayerPage[]> {
+  const tempPdfPath = createTempPath('text_layer', '.pdf');
+
+  try {
+    fs.writeFileSync(tempPdfPath, pdfBuffer);
+
+    const scriptPath = path.join(process.cwd(), 'scripts', 'pdf_text_layer.py');
+    const result = await runPythonScript<PdfTextLayerResult>(scriptPath, [tempPdfPath]);
+
+    if (!result.success || !result.pages) {
+      throw new Error(`PDF text layer extraction failed: ${result.error}`);
+    }
+
+    return result.pages.map(page => ({
+      pageNumber: page.page_number,
+      lines: page.lines.map(line => ({
+        text: line.text,
+        boundingBox: toBoundingBox(line.box),
+        words: line.words.map(word => ({ text: word.text, boundingBox: toBoundingBox(word.box) }))
+      })),
+      textChars: page.text_chars,
+      imageCoverage: page.image_coverage,
+      usable: page.usable
+    }));
+  } finally {
+    cleanupTempFiles(tempPdfPath);
+  }
+}
+
+function toBoundingBox([left, top, width, height]: ScriptBox): BoundingBox {
+  return { left, top, width, height };
+}
@@ -0,0 +1,44 @@
+import { GoogleDocumentAIService } from '../google-document-ai';
+import { API_CONFIG } from '../constants';
+import { buildPages, reportDocumentPages } from '../ocr-provider';
+import { selectDocumentPages } from '../page-selection';
+import type { ExtractionProgressListener, OcrDocument, OcrInput, OcrOptions, OcrProvider, OcrProviderDescriptor } from '../ocr-provider';
+
+export class GoogleOcrProvider implements OcrProvider {
+  readonly descriptor: OcrProviderDescriptor = {
+    id: 'google',
+    label: 'Google Document AI',
+    description: 'PDF + Images (JPEG, PNG, GIF, WebP, TIFF), 20MB limit',
+    acceptedMimeTypes: ['application/pdf', 'image/jpeg', 'image/jpg', 'image/png', 'image/gif', 'image/webp', 'image/tiff'],
+    acceptedExtensions: ['.pdf', '.jpg', '.jpeg', '.png', '.gif', '.webp', '.tiff', '.tif'],
+    maxFileSize: API_CONFIG.GOOGLE.MAX_FILE_SIZE,
+    supportsDirectQa: false,
+    supportedOptions: ['pages']
+  };
+
+  async extract(input: OcrInput, options: OcrOptions = {}, onProgress?: ExtractionProgressListener): Promise<OcrDocument> {
+    const startTime = Date.now();
+    const selectedPages = await selectDocumentPages(input.buffer, input.mimeType, options.pages);
+
+    const googleService = new GoogleDocumentAIService();
+    onProgress?.({ type: 'status', message: 'Waiting for Google Document AI to process the document' });
+    const result = await googleService.processDocument(input.buffer, input.filename, selectedPages);
+
+    const pages = buildPages(result.lines);
+    reportDocumentPages(onProgress, { pages, keyValuePairs: result.keyValuePairs, tables: result.tables });
+
+    return {
+      text: result.text,
+      pages,
+      keyValuePairs: result.keyValuePairs,
+      tables: result.tables,
+      entities: result.entities,
+      totalPages: result.totalPages,
+      metadata: {
+        providerId: this.descriptor.id,
+        processor: result.processorType,
+        processingTimeMs: Date.now() - startTime
+      }
+    };
+  }
+}
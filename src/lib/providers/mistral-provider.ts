@@ -0,0 +1,57 @@
+import { MistralOCRService } from '../mistral-ocr';
+import { selectDocumentPages } from '../page-selection';
+import { hasUploadedFileExpired, reportDocumentPages } from '../ocr-provider';
+import type { ExtractionProgressListener, OcrDocument, OcrInput, OcrOptions, OcrProvider, OcrProviderDescriptor } from '../ocr-provider';
+
+export class MistralOcrProvider implements OcrProvider {
+  readonly descriptor: OcrProviderDescriptor = {
+    id: 'mistral',
+    label: 'Mistral OCR',
+    description: 'PDF + Images (JPEG, PNG, GIF, WebP), 50MB limit',
+    acceptedMimeTypes: ['application/pdf', 'image/jpeg', 'image/jpg', 'image/png', 'image/gif', 'image/webp'],
+    acceptedExtensions: ['.pdf', '.jpg', '.jpeg', '.png', '.gif', '.webp'],
+    maxFileSize: 50 * 1024 * 1024,
+    supportsDirectQa: true,
+    supportedOptions: ['pages']
+  };
+
+  async extract(input: OcrInput, options: OcrOptions = {}, onProgress?: ExtractionProgressListener): Promise<OcrDocument> {
+    const startTime = Date.now();
+    const selectedPages = await selectDocumentPages(input.buffer, input.mimeType, options.pages);
+
+    const mistralService = new MistralOCRService();
+    onProgress?.({ type: 'status', message: 'Waiting for Mistral OCR to process the document' });
+    const result = await mistralService.processDocument(input.buffer, input.filename, selectedPages);
+
+    // Mistral returns markdown per page without line-level confidence
+    const pages = result.pages.map(page => ({
+      pageNumber: page.pageNumber,
+      text: page.markdown,
+      lines: []
+    }));
+    reportDocumentPages(onProgress, { pages, keyValuePairs: result.keyValuePairs, tables: result.tables });
+
+    return {
+      text: result.text,
+      pages,
+      // Recovered from the markdown, so they carry no boxes or scores
+      keyValuePairs: result.keyValuePairs,
+      tables: result.tables,
+      entities: [],
+      assets: result.assets,
+      totalPages: result.totalPages,
+      metadata: {
+        providerId: this.descriptor.id,
+        processor: 'Mistral OCR',
+        processingTimeMs: Date.now() - startTime,
+        uploadedFile: result.fileInfo
+      }
+    };
+  }
+
+  // Direct Q&A needs the uploaded copy, which is deleted after the retention period
+  async isCachedResultUsable(document: OcrDocument): Promise<boolean> {
+    const file = document.metadata.uploadedFile;
+    return !file || (!hasUploadedFileExpired(file) && await new MistralOCRService().getFileInfo(file.id) !== undefined);
+  }
+}
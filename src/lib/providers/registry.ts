@@ -0,0 +1,26 @@
+import type { OcrProvider, OcrProviderDescriptor } from '../ocr-provider';
+import { TextractOcrProvider } from './textract-provider';
+import { TextractExpenseOcrProvider } from './textract-expense-provider';
+import { TextractIdentityOcrProvider } from './textract-identity-provider';
+import { MistralOcrProvider } from './mistral-provider';
+import { GoogleOcrProvider } from './google-provider';
+import { TesseractOcrProvider } from './tesseract-provider';
+
+// Adapters create their underlying service per request, so registering them
+// here does not require the provider's credentials to be configured
+const providers: OcrProvider[] = [
+  new TextractOcrProvider(),
+  new TextractExpenseOcrProvider(),
+  new TextractIdentityOcrProvider(),
+  new MistralOcrProvider(),
+  new GoogleOcrProvider(),
+  new TesseractOcrProvider()
+];
+
+export function getOcrProvider(id: string): OcrProvider | undefined {
+  return providers.find(provider => provider.descriptor.id === id);
+}
+
+export function listOcrProviders(): OcrProviderDescriptor[] {
+  return providers.map(provider => provider.descriptor);
+}
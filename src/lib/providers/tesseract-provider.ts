@@ -0,0 +1,40 @@
+import { TesseractService } from '../tesseract';
+import { API_CONFIG } from '../constants';
+import { buildPages } from '../ocr-provider';
+import { selectPdfPages } from '../page-selection';
+import type { ExtractionProgressListener, OcrDocument, OcrInput, OcrOptions, OcrProvider, OcrProviderDescriptor } from '../ocr-provider';
+
+export class TesseractOcrProvider implements OcrProvider {
+  readonly descriptor: OcrProviderDescriptor = {
+    id: 'tesseract',
+    label: 'Tesseract (Local)',
+    description: 'Offline OCR on this machine. PDF + Images (JPEG, PNG, TIFF), 50MB limit',
+    acceptedMimeTypes: ['application/pdf', 'image/jpeg', 'image/jpg', 'image/png', 'image/tiff'],
+    acceptedExtensions: ['.pdf', '.jpg', '.jpeg', '.png', '.tiff', '.tif'],
+    maxFileSize: API_CONFIG.TESSERACT.MAX_FILE_SIZE,
+    supportsDirectQa: false,
+    supportedOptions: ['pages', 'raster', 'preprocess']
+  };
+
+  async extract(input: OcrInput, options: OcrOptions = {}, onProgress?: ExtractionProgressListener): Promise<OcrDocument> {
+    const startTime = Date.now();
+    const tesseractService = new TesseractService({ raster: options.raster, preprocess: options.preprocess }, onProgress);
+    const result = input.mimeType === 'application/pdf'
+      ? await tesseractService.extractFromPdf(input.buffer, await selectPdfPages(input.buffer, options.pages))
+      : await tesseractService.extractFromImage(input.buffer, input.filename, options.pages);
+
+    return {
+      text: result.text,
+      pages: buildPages(result.lines, undefined, undefined, result.pageRenders),
+      keyValuePairs: [],
+      tables: [],
+      entities: [],
+      totalPages: result.totalPages,
+      metadata: {
+        providerId: this.descriptor.id,
+        processor: 'Tesseract (Local)',
+        processingTimeMs: Date.now() - startTime
+      }
+    };
+  }
+}
@@ -0,0 +1,39 @@
+import { TextractService } from '../textract';
+import { buildPages } from '../ocr-provider';
+import { selectPdfPages } from '../page-selection';
+import { TEXTRACT_IMAGE_MODE_FILES } from './textract-image-modes';
+import type { ExtractionProgressListener, OcrDocument, OcrInput, OcrOptions, OcrProvider, OcrProviderDescriptor } from '../ocr-provider';
+
+// Invoice and receipt mode: Textract AnalyzeExpense instead of generic forms and tables
+export class TextractExpenseOcrProvider implements OcrProvider {
+  readonly descriptor: OcrProviderDescriptor = {
+    id: 'textract-expense',
+    label: 'AWS Textract Expense',
+    description: 'Invoices and receipts: vendor, totals, tax and line items. PDF + Images (PNG, JPEG, multi-page TIFF)',
+    ...TEXTRACT_IMAGE_MODE_FILES,
+    supportsDirectQa: false
+  };
+
+  async extract(input: OcrInput, options: OcrOptions = {}, onProgress?: ExtractionProgressListener): Promise<OcrDocument> {
+    const startTime = Date.now();
+    const textractService = new TextractService({ raster: options.raster, preprocess: options.preprocess }, [], onProgress);
+    const result = input.mimeType === 'application/pdf'
+      ? await textractService.extractExpensesFromPdf(input.buffer, await selectPdfPages(input.buffer, options.pages))
+      : await textractService.extractExpensesFromImage(input.buffer, input.filename, options.pages);
+
+    return {
+      text: result.text,
+      pages: buildPages(result.lines, undefined, undefined, result.pageRenders),
+      keyValuePairs: [],
+      tables: [],
+      entities: [],
+      expenses: result.expenses,
+      totalPages: result.totalPages,
+      metadata: {
+        providerId: this.descriptor.id,
+        processor: 'AWS Textract (AnalyzeExpense)',
+        processingTimeMs: Date.now() - startTime
+      }
+    };
+  }
+}
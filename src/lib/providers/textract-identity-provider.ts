@@ -0,0 +1,39 @@
+import { TextractService } from '../textract';
+import { buildPages } from '../ocr-provider';
+import { selectPdfPages } from '../page-selection';
+import { TEXTRACT_IMAGE_MODE_FILES } from './textract-image-modes';
+import type { ExtractionProgressListener, OcrDocument, OcrInput, OcrOptions, OcrProvider, OcrProviderDescriptor } from '../ocr-provider';
+
+// Identity document mode: Textract AnalyzeID for passports and driver's licenses
+export class TextractIdentityOcrProvider implements OcrProvider {
+  readonly descriptor: OcrProviderDescriptor = {
+    id: 'textract-identity',
+    label: 'AWS Textract Identity',
+    description: 'Passports and driver\'s licenses: name, document number, dates and MRZ. PDF + Images (PNG, JPEG, multi-page TIFF)',
+    ...TEXTRACT_IMAGE_MODE_FILES,
+    supportsDirectQa: false
+  };
+
+  async extract(input: OcrInput, options: OcrOptions = {}, onProgress?: ExtractionProgressListener): Promise<OcrDocument> {
+    const startTime = Date.now();
+    const textractService = new TextractService({ raster: options.raster, preprocess: options.preprocess }, [], onProgress);
+    const result = input.mimeType === 'application/pdf'
+      ? await textractService.extractIdentityFromPdf(input.buffer, await selectPdfPages(input.buffer, options.pages))
+      : await textractService.extractIdentityFromImage(input.buffer, input.filename, options.pages);
+
+    return {
+      text: result.text,
+      pages: buildPages(result.lines, undefined, undefined, result.pageRenders),
+      keyValuePairs: [],
+      tables: [],
+      entities: [],
+      identityDocuments: result.identityDocuments,
+      totalPages: result.totalPages,
+      metadata: {
+        providerId: this.descriptor.id,
+        processor: 'AWS Textract (AnalyzeID)',
+        processingTimeMs: Date.now() - startTime
+      }
+    };
+  }
+}
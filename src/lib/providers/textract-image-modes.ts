@@ -0,0 +1,11 @@
+import { API_CONFIG } from '../constants';
+import type { OcrProviderDescriptor } from '../ocr-provider';
+
+// Files and options of the Textract modes that always send pages as images,
+// each downscaled to the synchronous limit (AnalyzeExpense, AnalyzeID)
+export const TEXTRACT_IMAGE_MODE_FILES: Pick<OcrProviderDescriptor, 'acceptedMimeTypes' | 'acceptedExtensions' | 'maxFileSize' | 'supportedOptions'> = {
+  acceptedMimeTypes: ['application/pdf', 'image/png', 'image/jpeg', 'image/jpg', 'image/tiff'],
+  acceptedExtensions: ['.pdf', '.png', '.jpg', '.jpeg', '.tiff', '.tif'],
+  maxFileSize: API_CONFIG.TEXTRACT.IMAGE_MAX_FILE_SIZE,
+  supportedOptions: ['pages', 'raster', 'preprocess']
+};
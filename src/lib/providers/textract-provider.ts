@@ -0,0 +1,102 @@
+import { TextractService } from '../textract';
+import type { EnhancedTextractResult } from '../textract';
+import { API_CONFIG } from '../constants';
+import { buildPages } from '../ocr-provider';
+import { selectPdfPages } from '../page-selection';
+import type { ExtractionProgressListener, OcrDocument, OcrInput, OcrOptions, OcrProvider, OcrProviderDescriptor } from '../ocr-provider';
+
+export class TextractOcrProvider implements OcrProvider {
+  readonly descriptor: OcrProviderDescriptor = {
+    id: 'textract',
+    label: 'AWS Textract',
+    description: 'PDF (up to 500MB with asynchronous analysis) + Images (PNG, JPEG, multi-page TIFF)',
+    acceptedMimeTypes: ['application/pdf', 'image/png', 'image/jpeg', 'image/jpg', 'image/tiff'],
+    acceptedExtensions: ['.pdf', '.png', '.jpg', '.jpeg', '.tiff', '.tif'],
+    maxFileSize: API_CONFIG.TEXTRACT.ASYNC_MAX_FILE_SIZE,
+    supportsDirectQa: false,
+    supportedOptions: ['hybrid', 'asyncAnalysis', 'pages', 'raster', 'preprocess', 'queries']
+  };
+
+  async extract(input: OcrInput, options: OcrOptions = {}, onProgress?: ExtractionProgressListener): Promise<OcrDocument> {
+    const startTime = Date.now();
+    const { result, processor } = await this.runExtraction(input, options, onProgress);
+
+    return {
+      text: result.text,
+      pages: buildPages(result.lines, undefined, result.pageSources, result.pageRenders),
+      keyValuePairs: result.keyValuePairs,
+      tables: result.tables,
+      entities: [],
+      queryAnswers: result.queryAnswers,
+      layout: result.layout,
+      totalPages: result.totalPages,
+      metadata: {
+        providerId: this.descriptor.id,
+        processor,
+        processingTimeMs: Date.now() - startTime
+      }
+    };
+  }
+
+  validateOptions(options: OcrOptions, file: { mimeType: string; size: number }): string | undefined {
+    if (!this.usesPdfModes(file.mimeType)) {
+      return file.size > API_CONFIG.TEXTRACT.IMAGE_MAX_FILE_SIZE
+        ? `File size (${Math.round(file.size / 1024 / 1024)}MB) exceeds the ${API_CONFIG.TEXTRACT.IMAGE_MAX_FILE_SIZE / (1024 * 1024)}MB limit for image processing`
+        : undefined;
+    }
+    if (options.hybrid && options.queries?.length) {
+      return 'Queries cannot be combined with hybrid mode: pages read from the text layer are not sent to Textract';
+    }
+    if (!options.hybrid && options.preprocess?.length && (options.asyncAnalysis || file.size > API_CONFIG.TEXTRACT.SYNC_MAX_FILE_SIZE)) {
+      return `Image preprocessing is not available with asynchronous analysis, which reads the PDF directly and is used for every PDF over ${API_CONFIG.TEXTRACT.SYNC_MAX_FILE_SIZE / (1024 * 1024)}MB`;
+    }
+    return undefined;
+  }
+
+  private async runExtraction(
+    input: OcrInput,
+    options: OcrOptions,
+    onProgress?: ExtractionProgressListener
+  ): Promise<{ result: EnhancedTextractResult; processor: string }> {
+    const conflict = this.validateOptions(options, { mimeType: input.mimeType, size: input.buffer.length });
+    if (conflict) {
+      throw new Error(conflict);
+    }
+
+    const textractService = new TextractService({ raster: options.raster, preprocess: options.preprocess }, options.queries, onProgress);
+
+    if (!this.usesPdfModes(input.mimeType)) {
+      return {
+        result: await textractService.extractFromImage(input.buffer, input.filename, options.pages),
+        processor: 'AWS Textract (Image)'
+      };
+    }
+
+    const selectedPages = await selectPdfPages(input.buffer, options.pages);
+
+    if (options.hybrid) {
+      return {
+        result: await textractService.extractHybridFromPdf(input.buffer, selectedPages),
+        processor: 'AWS Textract (Hybrid text layer + OCR)'
+      };
+    }
+
+    // Documents over the synchronous limit always go through an asynchronous job
+    if (options.asyncAnalysis || input.buffer.length > API_CONFIG.TEXTRACT.SYNC_MAX_FILE_SIZE) {
+      return {
+        result: await textractService.extractAsyncFromPdf(input.buffer, selectedPages),
+        processor: 'AWS Textract (Asynchronous analysis)'
+      };
+    }
+
+    return {
+      result: await textractService.extractEnhancedDataFromPdf(input.buffer, selectedPages),
+      processor: 'AWS Textract (Enhanced)'
+    };
+  }
+
+  // Images are analyzed frame by frame; PDF-only modes do not apply
+  private usesPdfModes(mimeType: string): boolean {
+    return mimeType === 'application/pdf';
+  }
+}
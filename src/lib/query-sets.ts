@@ -0,0 +1,208 @@
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { randomUUID } from 'crypto';
+import { API_CONFIG } from './constants';
+import type { DocumentQuery, OcrOptions } from './ocr-provider';
+
+// Named list of queries for one kind of document, asked at extraction time
+export interface QuerySet {
+  id: string;
+  name: string;
+  documentType: string;
+  queries: DocumentQuery[];
+  // Shipped with the app; cannot be changed or deleted
+  builtIn?: boolean;
+}
+
+export type QuerySetInput = Pick<QuerySet, 'name' | 'documentType' | 'queries'> & { id?: string };
+
+const BUILT_IN_QUERY_SETS: QuerySet[] = [
+  {
+    id: 'invoice',
+    name: 'Invoice basics',
+    documentType: 'Invoice',
+    builtIn: true,
+    queries: [
+      { text: 'What is the invoice number?', alias: 'INVOICE_NUMBER' },
+      { text: 'What is the invoice date?', alias: 'INVOICE_DATE' },
+      { text: 'What is the due date?', alias: 'DUE_DATE' },
+      { text: 'Who is the vendor?', alias: 'VENDOR_NAME' },
+      { text: 'What is the total amount due?', alias: 'TOTAL_DUE' }
+    ]
+  },
+  {
+    id: 'insurance-policy',
+    name: 'Insurance policy',
+    documentType: 'Insurance policy',
+    builtIn: true,
+    queries: [
+      { text: 'What is the policy number?', alias: 'POLICY_NUMBER' },
+      { text: 'Who is the policyholder?', alias: 'POLICYHOLDER' },
+      { text: 'What is the policy effective date?', alias: 'EFFECTIVE_DATE' },
+      { text: 'What is the policy expiration date?', alias: 'EXPIRATION_DATE' },
+      { text: 'What is the total premium?', alias: 'PREMIUM' }
+    ]
+  },
+  {
+    id: 'bank-statement',
+    name: 'Bank statement',
+    documentType: 'Bank statement',
+    builtIn: true,
+    queries: [
+      { text: 'What is the account number?', alias: 'ACCOUNT_NUMBER' },
+      { text: 'What is the statement period?', alias: 'STATEMENT_PERIOD' },
+      { text: 'What is the opening balance?', alias: 'OPENING_BALANCE' },
+      { text: 'What is the closing balance?', alias: 'CLOSING_BALANCE' }
+    ]
+  }
+];
+
+// Saved sets are kept in one JSON file; QUERY_SETS_PATH overrides its location
+function getStorePath(): string {
+  return process.env.QUERY_SETS_PATH || path.join(process.cwd(), 'data', 'query-sets.json');
+}
+
+async function readSavedSets(): Promise<QuerySet[]> {
+  try {
+    return JSON.parse(await fs.readFile(getStorePath(), 'utf-8')) as QuerySet[];
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return [];
+    }
+    throw error;
+  }
+}
+
+async function writeSavedSets(sets: QuerySet[]): Promise<void> {
+  const storePath = getStorePath();
+  await fs.mkdir(path.dirname(storePath), { recursive: true });
+  await fs.writeFile(storePath, JSON.stringify(sets, null, 2));
+}
+
+// Saves and deletes rewrite the whole file, so they run one at a time on the latest contents.
+// Route bundles can each load their own copy of this module, so the queue lives on globalThis.
+const globalQuerySets = globalThis as typeof globalThis & { querySetUpdates?: { pending: Promise<unknown> } };
+const updates = globalQuerySets.querySetUpdates || (globalQuerySets.querySetUpdates = { pending: Promise.resolve() });
+
+// `update` returns the sets to write, or undefined to leave the file alone
+function updateSavedSets<T>(update: (saved: QuerySet[]) => { sets?: QuerySet[]; result: T }): Promise<T> {
+  const next = updates.pending.then(async () => {
+    const { sets, result } = update(await readSavedSets());
+    if (sets) {
+      await writeSavedSets(sets);
+    }
+    return result;
+  });
+  updates.pending = next.catch(() => undefined);
+  return next;
+}
+
+// Built-in sets first, then saved ones in creation order
+export async function listQuerySets(): Promise<QuerySet[]> {
+  return [...BUILT_IN_QUERY_SETS, ...(await readSavedSets())];
+}
+
+export function isBuiltInQuerySet(id: string | undefined): boolean {
+  return BUILT_IN_QUERY_SETS.some(set => set.id === id);
+}
+
+export async function getQuerySet(id: string): Promise<QuerySet | undefined> {
+  return (await listQuerySets()).find(set => set.id === id);
+}
+
+// Throws when the set is incomplete, breaks the query limits or targets a built-in set
+export function validateQuerySetInput(input: QuerySetInput): void {
+  if (!input || typeof input !== 'object' || Array.isArray(input)) {
+    throw new Error('Query set must be a JSON object');
+  }
+  if (typeof input.name !== 'string' || !input.name.trim()) {
+    throw new Error('Query set name is required');
+  }
+  if (typeof input.documentType !== 'string' || !input.documentType.trim()) {
+    throw new Error('Query set document type is required');
+  }
+  if (!Array.isArray(input.queries) || input.queries.length === 0) {
+    throw new Error('Query set needs at least one query');
+  }
+  validateQueries(input.queries);
+
+  if (isBuiltInQuerySet(input.id)) {
+    throw new Error(`Built-in query set "${input.id}" cannot be changed`);
+  }
+}
+
+// Creates a set, or replaces the saved set with the same id. Throws on invalid input.
+export async function saveQuerySet(input: QuerySetInput): Promise<QuerySet> {
+  validateQuerySetInput(input);
+
+  const set: QuerySet = {
+    id: input.id || randomUUID(),
+    name: input.name.trim(),
+    documentType: input.documentType.trim(),
+    queries: input.queries.map(query => ({ text: query.text.trim(), alias: query.alias?.trim() || undefined }))
+  };
+
+  return updateSavedSets(saved => {
+    const index = saved.findIndex(existing => existing.id === set.id);
+    if (index === -1) {
+      saved.push(set);
+    } else {
+      saved[index] = set;
+    }
+    return { sets: saved, result: set };
+  });
+}
+
+// Returns false when no saved set has this id. Throws for built-in sets.
+export async function deleteQuerySet(id: string): Promise<boolean> {
+  if (isBuiltInQuerySet(id)) {
+    throw new Error(`Built-in query set "${id}" cannot be deleted`);
+  }
+
+  return updateSavedSets(saved => {
+    const remaining = saved.filter(set => set.id !== id);
+    return remaining.length === saved.length
+      ? { result: false }
+      : { sets: remaining, result: true };
+  });
+}
+
+// Checks the queries against Textract's limits. Throws on the first problem.
+export function validateQueries(queries: DocumentQuery[]): void {
+  const { MAX_QUERIES, MAX_QUERY_LENGTH } = API_CONFIG.TEXTRACT;
+
+  if (queries.length > MAX_QUERIES) {
+    throw new Error(`Too many queries: ${queries.length} (maximum ${MAX_QUERIES})`);
+  }
+
+  queries.forEach(query => {
+    if (typeof query?.text !== 'string' || !query.text.trim()) {
+      throw new Error('Queries must have a non-empty text');
+    }
+    if (query.text.length > MAX_QUERY_LENGTH) {
+      throw new Error(`Query "${query.text.slice(0, 40)}..." is longer than ${MAX_QUERY_LENGTH} characters`);
+    }
+    if (query.alias !== undefined && query.alias !== null && typeof query.alias !== 'string') {
+      throw new Error(`Alias of query "${query.text.slice(0, 40)}" must be a string`);
+    }
+  });
+}
+
+// Queries of the selected saved set followed by the ad-hoc ones, without repeats.
+// Throws when the set does not exist or the combined list is invalid.
+export async function resolveQueries(options: OcrOptions): Promise<DocumentQuery[]> {
+  const querySet = options.querySet ? await getQuerySet(options.querySet) : undefined;
+  if (options.querySet && !querySet) {
+    throw new Error(`Unknown query set: ${options.querySet}`);
+  }
+
+  const queries: DocumentQuery[] = [];
+  [...(querySet?.queries || []), ...(options.queries || [])].forEach(query => {
+    if (!queries.some(existing => existing.text.toLowerCase() === query.text.toLowerCase())) {
+      queries.push(query);
+    }
+  });
+
+  validateQueries(queries);
+  return queries;
+}
@@ -0,0 +1,165 @@
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { createHash } from 'crypto';
+import { API_CONFIG } from './constants';
+
+export interface ResultCacheEntry {
+  value: unknown;
+  // ISO timestamps
+  createdAt: string;
+  expiresAt: string;
+}
+
+// Where cached extraction results live; swap it with setResultCacheStore
+export interface ResultCacheStore {
+  get(key: string): Promise<ResultCacheEntry | undefined>;
+  set(key: string, entry: ResultCacheEntry): Promise<void>;
+  delete(key: string): Promise<void>;
+  // Removes every entry, or only the expired ones; returns how many were removed
+  purge(expiredOnly: boolean): Promise<number>;
+}
+
+export interface CachedResult<T> {
+  value: T;
+  cached: boolean;
+  // When the served result was computed, for cache hits
+  cachedAt?: string;
+}
+
+// One JSON file per entry; RESULT_CACHE_PATH overrides the directory
+export class FileSystemResultCacheStore implements ResultCacheStore {
+  private dir: string;
+
+  constructor(dir = process.env.RESULT_CACHE_PATH || path.join(process.cwd(), 'data', 'result-cache')) {
+    this.dir = dir;
+  }
+
+  async get(key: string): Promise<ResultCacheEntry | undefined> {
+    try {
+      return JSON.parse(await fs.readFile(this.getPath(key), 'utf-8')) as ResultCacheEntry;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return undefined;
+      }
+      throw error;
+    }
+  }
+
+  async set(key: string, entry: ResultCacheEntry): Promise<void> {
+    await fs.mkdir(this.dir, { recursive: true });
+    await fs.writeFile(this.getPath(key), JSON.stringify(entry));
+  }
+
+  async delete(key: string): Promise<void> {
+    await fs.rm(this.getPath(key), { force: true });
+  }
+
+  async purge(expiredOnly: boolean): Promise<number> {
+    let names: string[];
+    try {
+      names = (await fs.readdir(this.dir)).filter(name => name.endsWith('.json'));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return 0;
+      }
+      throw error;
+    }
+
+    let purged = 0;
+    const now = new Date().toISOString();
+    for (const name of names) {
+      const key = name.slice(0, -'.json'.length);
+      // Unreadable entries are removed along with expired ones
+      const entry = expiredOnly ? await this.get(key).catch(() => undefined) : undefined;
+      if (!expiredOnly || !entry || entry.expiresAt <= now) {
+        await this.delete(key);
+        purged++;
+      }
+    }
+    return purged;
+  }
+
+  private getPath(key: string): string {
+    return path.join(this.dir, `${key}.json`);
+  }
+}
+
+let store: ResultCacheStore = new FileSystemResultCacheStore();
+
+export function setResultCacheStore(next: ResultCacheStore): void {
+  store = next;
+}
+
+// 0 turns the cache off
+function getTtlHours(): number {
+  const configured = parseFloat(process.env.RESULT_CACHE_TTL_HOURS || '');
+  return Number.isNaN(configured) ? API_CONFIG.RESULT_CACHE.TTL_HOURS : configured;
+}
+
+// Key for a document processed by `scope` (a provider or route) with the given options.
+// Option order does not matter; unset options are ignored.
+export function getResultCacheKey(document: Buffer, scope: string, options: object): string {
+  const documentHash = createHash('sha256').update(document).digest('hex');
+  return createHash('sha256').update(`${documentHash}\n${scope}\n${stableStringify(options)}`).digest('hex');
+}
+
+// Serves a stored result for `key` when there is a fresh one, otherwise computes and stores it.
+// `isUsable` can reject a stored result, e.g. when a remote copy it refers to is gone.
+// Cache failures are logged and never fail the extraction.
+export async function withResultCache<T>(
+  key: string,
+  compute: () => Promise<T>,
+  isUsable?: (value: T) => Promise<boolean>
+): Promise<CachedResult<T>> {
+  const ttlHours = getTtlHours();
+  if (ttlHours <= 0) {
+    return { value: await compute(), cached: false };
+  }
+
+  try {
+    const entry = await store.get(key);
+    if (entry && entry.expiresAt > new Date().toISOString() && (!isUsable || await isUsable(entry.value as T))) {
+      console.log(`Result cache hit (${key.slice(0, 12)}), computed ${entry.createdAt}`);
+      return { value: entry.value as T, cached: true, cachedAt: entry.createdAt };
+    }
+    if (entry) {
+      await store.delete(key);
+    }
+  } catch (error) {
+    console.error('Error reading result cache:', error);
+  }
+
+  const value = await compute();
+
+  const createdAt = new Date();
+  try {
+    await store.set(key, {
+      value,
+      createdAt: createdAt.toISOString(),
+      expiresAt: new Date(createdAt.getTime() + ttlHours * 60 * 60 * 1000).toISOString()
+    });
+  } catch (error) {
+    console.error('Error writing result cache:', error);
+  }
+
+  return { value, cached: false };
+}
+
+export async function purgeResultCache(expiredOnly = false): Promise<number> {
+  const purged = await store.purge(expiredOnly);
+  console.log(`Purged ${purged} ${expiredOnly ? 'expired ' : ''}result cache entr${purged !== 1 ? 'ies' : 'y'}`);
+  return purged;
+}
+
+function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(',')}]`;
+  }
+  if (value && typeof value === 'object') {
+    const entries = Object.entries(value)
+      .filter(([, entryValue]) => entryValue !== undefined)
+      .sort(([a], [b]) => a.localeCompare(b));
+    return `{${entries.map(([entryKey, entryValue]) => `${JSON.stringify(entryKey)}:${stableStringify(entryValue)}`).join(',')}}`;
+  }
+  return JSON.stringify(value) ?? 'null';
+}
@@ -0,0 +1,53 @@
+import { S3Client, PutObjectCommand, DeleteObjectCommand } from '@aws-sdk/client-s3';
+import { API_CONFIG } from './constants';
+
+export interface StagedObject {
+  bucket: string;
+  key: string;
+}
+
+// Stages documents in an S3-compatible bucket for Textract's asynchronous APIs.
+// AWS_S3_ENDPOINT points the client at a local S3 stand-in during development.
+export class S3StagingService {
+  private client: S3Client;
+  private bucket: string;
+
+  constructor() {
+    this.bucket = process.env.TEXTRACT_S3_BUCKET || '';
+    if (!this.bucket) {
+      throw new Error('TEXTRACT_S3_BUCKET environment variable is required for asynchronous Textract analysis');
+    }
+
+    const endpoint = process.env.AWS_S3_ENDPOINT;
+    this.client = new S3Client({
+      region: process.env.AWS_REGION || 'us-east-1',
+      ...(endpoint ? { endpoint, forcePathStyle: true } : {})
+    });
+  }
+
+  async stage(documentBuffer: Buffer, extension: string): Promise<StagedObject> {
+    const key = `${API_CONFIG.TEXTRACT.STAGING_PREFIX}${Date.now()}_${Math.random().toString(36).substr(2, 9)}${extension}`;
+
+    console.log(`Staging document in s3://${this.bucket}/${key}, Size: ${Math.round(documentBuffer.length / 1024)}KB`);
+
+    await this.client.send(new PutObjectCommand({
+      Bucket: this.bucket,
+      Key: key,
+      Body: documentBuffer
+    }));
+
+    return { bucket: this.bucket, key };
+  }
+
+  async remove(object: StagedObject): Promise<void> {
+    try {
+      await this.client.send(new DeleteObjectCommand({
+        Bucket: object.bucket,
+        Key: object.key
+      }));
+    } catch (error) {
+      // Leftover staging objects should be covered by a bucket lifecycle rule
+      console.error(`Failed to remove staged object s3://${object.bucket}/${object.key}:`, error);
+    }
+  }
+}
@@ -0,0 +1,184 @@
+import * as path from 'path';
+import { spawn } from 'child_process';
+import { API_CONFIG } from './constants';
+import { toPageRenderInfo, withImageFrames, withPdfImages } from './pdf-images';
+import type { PageImageSettings, PdfPageImage } from './pdf-images';
+import { buildPageDoneEvent, unionBoundingBoxes } from './ocr-provider';
+import type { DocumentLine, DocumentWord, ExtractionProgressListener, PageRenderInfo } from './ocr-provider';
+import type { EnhancedTextractResult } from './textract';
+
+// Local OCR through the Tesseract CLI. Nothing leaves the machine, so this
+// works offline and for confidential documents.
+export class TesseractService {
+  private binary: string;
+  private language: string;
+  private imageSettings: PageImageSettings;
+  private onProgress?: ExtractionProgressListener;
+
+  // `imageSettings` control how PDF pages are rendered and cleaned up before recognition;
+  // `onProgress` hears about each recognized page
+  constructor(imageSettings: PageImageSettings = {}, onProgress?: ExtractionProgressListener) {
+    this.binary = process.env.TESSERACT_PATH || 'tesseract';
+    this.language = process.env.TESSERACT_LANG || API_CONFIG.TESSERACT.DEFAULT_LANGUAGE;
+    this.imageSettings = imageSettings;
+    this.onProgress = onProgress;
+  }
+
+  // `pages` limits OCR to the given 1-based page numbers; results keep the original numbering
+  async extractFromPdf(pdfBuffer: Buffer, pages?: number[]): Promise<EnhancedTextractResult> {
+    return withPdfImages(pdfBuffer, (images, totalPages) => this.recognizePages(images, totalPages), { ...this.imageSettings, pages });
+  }
+
+  // PNG and JPEG images are one page; every frame of a multi-page TIFF is a page.
+  // `pageSelection` picks frames, e.g. "1-3,last"
+  async extractFromImage(imageBuffer: Buffer, filename: string, pageSelection?: string): Promise<EnhancedTextractResult> {
+    return withImageFrames(imageBuffer, filename, (images, totalPages) => this.recognizePages(images, totalPages), {
+      pageSelection,
+      preprocess: this.imageSettings.preprocess
+    });
+  }
+
+  // Recognizes page images one at a time; `totalPages` is the document's page count
+  private async recognizePages(images: PdfPageImage[], totalPages: number): Promise<EnhancedTextractResult> {
+    const allLines: DocumentLine[] = [];
+    const pageRenders: PageRenderInfo[] = [];
+    const errors: string[] = [];
+    this.onProgress?.({ type: 'rasterized', pageNumbers: images.map(image => image.pageNumber) });
+
+    for (let i = 0; i < images.length; i++) {
+      const { pageNumber, imagePath, dpi } = images[i];
+      console.log(`Running Tesseract on page ${i + 1}/${images.length}${dpi ? ` at ${dpi} DPI` : ''}: ${path.basename(imagePath)}`);
+
+      this.onProgress?.({ type: 'pageStarted', pageNumber });
+      try {
+        const pageLines = await this.recognizeImage(imagePath, pageNumber);
+        const render = toPageRenderInfo(images[i]);
+        allLines.push(...pageLines);
+        pageRenders.push(render);
+        console.log(`  Extracted ${pageLines.length} lines from page ${pageNumber}`);
+        this.onProgress?.(buildPageDoneEvent(pageNumber, pageLines, [], [], render));
+      } catch (pageError) {
+        console.error(`  Error processing page ${pageNumber}:`, pageError);
+        const message = `Error processing page ${pageNumber}: ${pageError instanceof Error ? pageError.message : 'Unknown error'}`;
+        errors.push(message);
+        this.onProgress?.({ type: 'pageFailed', pageNumber, error: message });
+      }
+    }
+
+    if (allLines.length === 0) {
+      const errorSummary = errors.length > 0 ? ` Errors: ${errors.join('; ')}` : '';
+      throw new Error(`No text could be extracted from any page.${errorSummary}`);
+    }
+
+    return { ...this.buildResult(allLines, totalPages), pageRenders };
+  }
+
+  private async recognizeImage(imagePath: string, firstPageNumber: number): Promise<DocumentLine[]> {
+    const tsv = await this.runTesseract([imagePath, 'stdout', '-l', this.language, 'tsv']);
+    return this.parseTsv(tsv, firstPageNumber);
+  }
+
+  // Groups TSV word rows into lines; line confidence is the mean word confidence
+  private parseTsv(tsv: string, firstPageNumber: number): DocumentLine[] {
+    const lineMap = new Map<string, { words: DocumentWord[]; pageNumber: number }>();
+    const pageSizes = new Map<string, { width: number; height: number }>();
+
+    tsv.split('\n').slice(1).forEach(row => {
+      const columns = row.split('\t');
+      if (columns.length < 12) {
+        return;
+      }
+
+      const [level, pageNum, blockNum, parNum, lineNum] = columns;
+      const [left, top, width, height] = columns.slice(6, 10).map(value => parseInt(value) || 0);
+      const confidence = parseFloat(columns[10]);
+      const word = columns.slice(11).join('\t').trim();
+
+      // Level 1 rows describe the page and carry its pixel size
+      if (level === '1') {
+        pageSizes.set(pageNum, { width, height });
+        return;
+      }
+
+      // Level 5 rows are words; structural rows carry a confidence of -1
+      if (level !== '5' || !word || confidence < 0) {
+        return;
+      }
+
+      const key = `${pageNum}-${blockNum}-${parNum}-${lineNum}`;
+      let line = lineMap.get(key);
+      if (!line) {
+        line = { words: [], pageNumber: firstPageNumber + (parseInt(pageNum) || 1) - 1 };
+        lineMap.set(key, line);
+      }
+
+      const pageSize = pageSizes.get(pageNum);
+      line.words.push({
+        text: word,
+        confidence,
+        boundingBox: pageSize && pageSize.width > 0 && pageSize.height > 0 ? {
+          left: left / pageSize.width,
+          top: top / pageSize.height,
+          width: width / pageSize.width,
+          height: height / pageSize.height
+        } : undefined
+      });
+    });
+
+    return Array.from(lineMap.values()).map(line => ({
+      text: line.words.map(word => word.text).join(' '),
+      confidence: line.words.reduce((sum, word) => sum + word.confidence, 0) / line.words.length,
+      pageNumber: line.pageNumber,
+      boundingBox: unionBoundingBoxes(line.words.map(word => word.boundingBox)),
+      words: line.words
+    }));
+  }
+
+  private buildResult(lines: DocumentLine[], totalPages: number): EnhancedTextractResult {
+    const pageNumbers = Array.from(new Set(lines.map(line => line.pageNumber))).sort((a, b) => a - b);
+    const text = pageNumbers.map(pageNumber => {
+      const pageText = lines
+        .filter(line => line.pageNumber === pageNumber)
+        .map(line => line.text)
+        .join('\n');
+      return `=== Page ${pageNumber} ===\n${pageText}`;
+    }).join('\n\n');
+
+    return {
+      text,
+      lines,
+      keyValuePairs: [],
+      formFields: [],
+      tables: [],
+      totalPages
+    };
+  }
+
+  private runTesseract(args: string[]): Promise<string> {
+    return new Promise((resolve, reject) => {
+      const tesseractProcess = spawn(this.binary, args);
+      let output = '';
+      let errorOutput = '';
+
+      tesseractProcess.stdout.on('data', (data) => {
+        output += data.toString();
+      });
+
+      tesseractProcess.stderr.on('data', (data) => {
+        errorOutput += data.toString();
+      });
+
+      tesseractProcess.on('close', (code) => {
+        if (code !== 0) {
+          reject(new Error(`Tesseract failed with code ${code}: ${errorOutput}`));
+          return;
+        }
+        resolve(output);
+      });
+
+      tesseractProcess.on('error', (error) => {
+        reject(new Error(`Failed to spawn Tesseract process (is tesseract-ocr installed?): ${error.message}`));
+      });
+    });
+  }
+}
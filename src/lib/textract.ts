@@ -1,52 +1,131 @@
-import { TextractClient, DetectDocumentTextCommand, AnalyzeDocumentCommand } from '@aws-sdk/client-textract';
+import {
+  TextractClient,
+  DetectDocumentTextCommand,
+  AnalyzeDocumentCommand,
+  AnalyzeExpenseCommand,
+  AnalyzeIDCommand,
+  StartDocumentAnalysisCommand,
+  GetDocumentAnalysisCommand,
+  Block,
+  ExpenseDocument as TextractExpenseDocument,
+  ExpenseField as TextractExpenseField,
+  FeatureType,
+  IdentityDocument as TextractIdentityDocument,
+  IdentityDocumentField as TextractIdentityDocumentField,
+  QueriesConfig,
+  RelationshipType
+} from '@aws-sdk/client-textract';
 import * as fs from 'fs';
 import * as path from 'path';
-import * as os from 'os';
-import { spawn } from 'child_process';
-
-export interface KeyValuePair {
-  key: string;
-  value: string;
-  confidence: number;
-  pageNumber: number;
-}
-
-export interface FormField {
-  fieldName: string;
-  fieldValue: string;
-  confidence: number;
-  pageNumber: number;
-}
-
-export interface TableData {
-  rows: string[][];
-  confidence: number;
-  pageNumber: number;
-}
+import { API_CONFIG } from './constants';
+import { mapWithConcurrency, withRetry } from './concurrency';
+import { withPdfImages } from './pdf-images';
+import { toPageRenderInfo, withImageFrames } from './pdf-images';
+import type { PageImageSettings, PdfImageOptions, PdfPageImage } from './pdf-images';
+import { S3StagingService } from './s3-staging';
+import { countPdfPages, extractPdfPages } from './page-selection';
+import { readPdfTextLayer } from './pdf-text-layer';
+import type { PdfTextLayerLine } from './pdf-text-layer';
+import { buildPageDoneEvent, buildPages, layoutToMarkdown, reportDocumentPages, unionBoundingBoxes, withSelectionMark } from './ocr-provider';
+import type { BoundingBox, ExpenseDocument, ExtractionProgressListener, ExpenseField, ExpenseSummary, IdentityDocument, IdentityField, IdentitySummary, KeyValuePair, FormField, SelectionStatus, TableCell, TableData, DocumentLine, DocumentQuery, LayoutElement, LayoutElementType, PageTextSource, PageRenderInfo, QueryAnswer } from './ocr-provider';
+
+export type { KeyValuePair, FormField, TableData };
+
+const LAYOUT_BLOCK_TYPES: Partial<Record<string, LayoutElementType>> = {
+  LAYOUT_TITLE: 'title',
+  LAYOUT_SECTION_HEADER: 'sectionHeader',
+  LAYOUT_TEXT: 'text',
+  LAYOUT_LIST: 'list',
+  LAYOUT_HEADER: 'header',
+  LAYOUT_FOOTER: 'footer',
+  LAYOUT_PAGE_NUMBER: 'pageNumber',
+  LAYOUT_TABLE: 'table',
+  LAYOUT_FIGURE: 'figure',
+  LAYOUT_KEY_VALUE: 'keyValue'
+};
+
+// AnalyzeExpense summary field types picked into ExpenseSummary
+const EXPENSE_SUMMARY_FIELDS: Partial<Record<string, keyof ExpenseSummary>> = {
+  VENDOR_NAME: 'vendorName',
+  VENDOR_ADDRESS: 'vendorAddress',
+  RECEIVER_NAME: 'receiverName',
+  INVOICE_RECEIPT_ID: 'invoiceId',
+  INVOICE_RECEIPT_DATE: 'invoiceDate',
+  DUE_DATE: 'dueDate',
+  SUBTOTAL: 'subtotal',
+  TAX: 'tax',
+  TOTAL: 'total',
+  AMOUNT_DUE: 'amountDue'
+};
+
+// AnalyzeID field types picked into IdentitySummary; the name is joined from IDENTITY_NAME_FIELDS
+const IDENTITY_SUMMARY_FIELDS: Partial<Record<string, keyof IdentitySummary>> = {
+  DOCUMENT_NUMBER: 'documentNumber',
+  DATE_OF_BIRTH: 'dateOfBirth',
+  DATE_OF_ISSUE: 'dateOfIssue',
+  EXPIRATION_DATE: 'expirationDate',
+  ADDRESS: 'address',
+  MRZ_CODE: 'mrz'
+};
+
+const IDENTITY_NAME_FIELDS = ['FIRST_NAME', 'MIDDLE_NAME', 'LAST_NAME', 'SUFFIX'];
 
 export interface EnhancedTextractResult {
   text: string;
+  lines: DocumentLine[];
   keyValuePairs: KeyValuePair[];
   formFields: FormField[];
   tables: TableData[];
+  // Answers to the queries passed to the service
+  queryAnswers?: QueryAnswer[];
+  // Layout elements and signatures in reading order
+  layout?: LayoutElement[];
+  // Set by expense analysis
+  expenses?: ExpenseDocument[];
+  // Set by identity analysis
+  identityDocuments?: IdentityDocument[];
   totalPages: number;
+  // Set by hybrid extraction: where each page's text came from
+  pageSources?: PageTextSource[];
+  // DPI and preprocessing of each rasterized page
+  pageRenders?: PageRenderInfo[];
+}
+
+interface PageResult {
+  pageNumber: number;
+  render: PageRenderInfo;
+  result: EnhancedTextractResult;
 }
 
 export class TextractService {
   private client: TextractClient;
-
-  constructor() {
+  private pageConcurrency: number;
+  private imageSettings: PageImageSettings;
+  private queries: DocumentQuery[];
+  private onProgress?: ExtractionProgressListener;
+
+  // `imageSettings` control how PDF pages are rendered and cleaned up when they have to be sent as images;
+  // `queries` are asked on every analyzed page; `onProgress` hears about pages analyzed one by one
+  constructor(imageSettings: PageImageSettings = {}, queries: DocumentQuery[] = [], onProgress?: ExtractionProgressListener) {
+    const endpoint = process.env.TEXTRACT_ENDPOINT;
     this.client = new TextractClient({
-      region: process.env.AWS_REGION || 'us-east-1'
+      region: process.env.AWS_REGION || 'us-east-1',
+      ...(endpoint ? { endpoint } : {})
     });
+    this.pageConcurrency = parseInt(process.env.TEXTRACT_PAGE_CONCURRENCY || '') || API_CONFIG.TEXTRACT.PAGE_CONCURRENCY;
+    this.imageSettings = imageSettings;
+    this.queries = queries;
+    this.onProgress = onProgress;
   }
 
-  async extractEnhancedDataFromPdf(pdfBuffer: Buffer): Promise<EnhancedTextractResult> {
+  // `pages` limits processing to the given 1-based page numbers; results keep the original numbering
+  async extractEnhancedDataFromPdf(pdfBuffer: Buffer, pages?: number[]): Promise<EnhancedTextractResult> {
     const fileSizeMB = pdfBuffer.length / (1024 * 1024);
     
     try {
-      // Only try direct PDF processing if file size is within limits (10MB)
-      if (fileSizeMB <= 10) {
+      // Only try direct PDF processing if file size is within limits (10MB), the whole document is wanted
+      // and no preprocessing was requested (preprocessing needs page images). Raster options do not apply here.
+      if (fileSizeMB <= 10 && !pages && !this.imageSettings.preprocess?.length) {
         try {
           return await this.analyzeDocumentDirectly(pdfBuffer);
         } catch (error: unknown) {
@@ -61,7 +140,7 @@ export class TextractService {
       
       // Convert PDF to images and process each page
       console.log(`File size ${fileSizeMB.toFixed(2)}MB - attempting image conversion...`);
-      return await this.convertPdfAndExtractEnhanced(pdfBuffer);
+      return await this.convertPdfAndExtractEnhanced(pdfBuffer, pages);
       
     } catch (error: unknown) {
       console.error('Error in extractEnhancedDataFromPdf:', error);
@@ -75,6 +154,164 @@ export class TextractService {
     }
   }
 
+  // Runs a StartDocumentAnalysis job over the whole document staged in S3, so large
+  // multi-page PDFs are analyzed in one job instead of page by page
+  async extractAsyncFromPdf(pdfBuffer: Buffer, pages?: number[]): Promise<EnhancedTextractResult> {
+    // Only the selected pages are staged; job page N maps back to pages[N - 1]
+    const documentBuffer = pages ? await extractPdfPages(pdfBuffer, pages) : pdfBuffer;
+    const toOriginalPage = (jobPage: number) => pages ? pages[jobPage - 1] : jobPage;
+
+    const staging = new S3StagingService();
+    const staged = await staging.stage(documentBuffer, '.pdf');
+
+    try {
+      const startResponse = await this.client.send(new StartDocumentAnalysisCommand({
+        DocumentLocation: {
+          S3Object: {
+            Bucket: staged.bucket,
+            Name: staged.key
+          }
+        },
+        ...this.analysisFeatures()
+      }));
+
+      if (!startResponse.JobId) {
+        throw new Error('Textract did not return a job ID');
+      }
+
+      console.log(`Started Textract analysis job ${startResponse.JobId}`);
+      this.onProgress?.({ type: 'status', message: 'Waiting for the Textract analysis job; pages are reported when it finishes' });
+
+      const blocks = await this.waitForAnalysisJob(startResponse.JobId);
+
+      // Group blocks by page so each page is processed like a synchronous response
+      const blocksByPage = new Map<number, Block[]>();
+      blocks.forEach(block => {
+        const pageNumber = toOriginalPage(block.Page || 1);
+        if (!blocksByPage.has(pageNumber)) {
+          blocksByPage.set(pageNumber, []);
+        }
+        blocksByPage.get(pageNumber)!.push(block);
+      });
+
+      const pageNumbers = Array.from(blocksByPage.keys()).sort((a, b) => a - b);
+      this.onProgress?.({ type: 'rasterized', pageNumbers });
+      const pageResults = pageNumbers.map(pageNumber => {
+        const pageResult = this.processBlocks(blocksByPage.get(pageNumber)!, pageNumber);
+        this.reportPageDone(pageNumber, pageResult);
+        return pageResult;
+      });
+
+      console.log(`Textract job ${startResponse.JobId} returned ${blocks.length} blocks across ${pageNumbers.length} pages`);
+
+      return this.mergeResults(pageResults, pageNumbers, await countPdfPages(pdfBuffer));
+    } finally {
+      await staging.remove(staged);
+    }
+  }
+
+  private async waitForAnalysisJob(jobId: string): Promise<Block[]> {
+    const deadline = Date.now() + API_CONFIG.TEXTRACT.ASYNC_MAX_WAIT_MS;
+    const blocks: Block[] = [];
+    let nextToken: string | undefined;
+
+    // Poll until the job leaves IN_PROGRESS, then page through the remaining results
+    while (true) {
+      const getCommand = new GetDocumentAnalysisCommand({
+        JobId: jobId,
+        NextToken: nextToken
+      });
+      const response = await this.sendWithRetry(() => this.client.send(getCommand), `job ${jobId}`);
+
+      if (response.JobStatus === 'IN_PROGRESS') {
+        if (Date.now() > deadline) {
+          throw new Error(`Textract job ${jobId} did not finish within ${API_CONFIG.TEXTRACT.ASYNC_MAX_WAIT_MS / 60000} minutes`);
+        }
+        await new Promise(resolve => setTimeout(resolve, API_CONFIG.TEXTRACT.ASYNC_POLL_INTERVAL_MS));
+        continue;
+      }
+
+      if (response.JobStatus === 'FAILED') {
+        throw new Error(`Textract job ${jobId} failed: ${response.StatusMessage || 'Unknown error'}`);
+      }
+
+      if (response.Warnings && response.Warnings.length > 0) {
+        response.Warnings.forEach(warning => {
+          console.warn(`Textract job ${jobId} warning ${warning.ErrorCode} on pages ${warning.Pages?.join(', ')}`);
+        });
+      }
+
+      blocks.push(...(response.Blocks || []));
+      nextToken = response.NextToken;
+
+      if (!nextToken) {
+        return blocks;
+      }
+    }
+  }
+
+  // Uses the embedded text layer where it is usable and only sends image-only pages to OCR
+  async extractHybridFromPdf(pdfBuffer: Buffer, pages?: number[]): Promise<EnhancedTextractResult> {
+    const fullTextLayer = await readPdfTextLayer(pdfBuffer);
+    const textLayer = pages ? fullTextLayer.filter(page => pages.includes(page.pageNumber)) : fullTextLayer;
+    const ocrPageNumbers = textLayer.filter(page => !page.usable).map(page => page.pageNumber);
+
+    console.log(`Text layer usable on ${textLayer.length - ocrPageNumbers.length}/${textLayer.length} pages, ${ocrPageNumbers.length} pages need OCR`);
+
+    const pageResults = new Map<number, EnhancedTextractResult>();
+    const pageRenders: PageRenderInfo[] = [];
+    const errors: string[] = [];
+
+    this.onProgress?.({ type: 'rasterized', pageNumbers: textLayer.map(page => page.pageNumber) });
+    textLayer.filter(page => page.usable).forEach(page => {
+      const pageResult = this.buildTextLayerResult(page.lines, page.pageNumber);
+      pageResults.set(page.pageNumber, pageResult);
+      this.reportPageDone(page.pageNumber, pageResult);
+    });
+
+    if (ocrPageNumbers.length > 0) {
+      await withPdfImages(pdfBuffer, async (images) => {
+        await mapWithConcurrency(images, this.pageConcurrency, async (image) => {
+          console.log(`OCR for scanned page ${image.pageNumber} at ${image.dpi} DPI: ${path.basename(image.imagePath)}`);
+
+          if (image.oversized) {
+            this.reportPageError(errors, image.pageNumber, this.oversizedPageError(image.pageNumber, image.dpi));
+            return;
+          }
+
+          this.onProgress?.({ type: 'pageStarted', pageNumber: image.pageNumber });
+          try {
+            const pageResult = await this.analyzeImage(fs.readFileSync(image.imagePath), image.pageNumber);
+            const render = toPageRenderInfo(image);
+            pageResults.set(image.pageNumber, pageResult);
+            pageRenders.push(render);
+            this.reportPageDone(image.pageNumber, pageResult, render);
+          } catch (pageError) {
+            console.error(`  Error processing page ${image.pageNumber}:`, pageError);
+            this.reportPageError(errors, image.pageNumber, `Error processing page ${image.pageNumber}: ${pageError instanceof Error ? pageError.message : 'Unknown error'}`);
+          }
+        });
+      }, this.imageOptions(ocrPageNumbers));
+    }
+
+    if (pageResults.size === 0) {
+      const errorSummary = errors.length > 0 ? ` Errors: ${errors.join('; ')}` : '';
+      throw new Error(`No data could be extracted from any page.${errorSummary}`);
+    }
+
+    const pageNumbers = Array.from(pageResults.keys()).sort((a, b) => a - b);
+    const merged = this.mergeResults(pageNumbers.map(pageNumber => pageResults.get(pageNumber)!), pageNumbers, fullTextLayer.length);
+
+    return {
+      ...merged,
+      pageSources: pageNumbers.map(pageNumber => ({
+        pageNumber,
+        source: ocrPageNumbers.includes(pageNumber) ? 'ocr' : 'pdf'
+      })),
+      pageRenders: pageRenders.sort((a, b) => a.pageNumber - b.pageNumber)
+    };
+  }
+
   async extractTextFromPdf(pdfBuffer: Buffer): Promise<string> {
     const fileSizeMB = pdfBuffer.length / (1024 * 1024);
     
@@ -194,148 +431,335 @@ export class TextractService {
       Document: {
         Bytes: pdfBuffer
       },
-      FeatureTypes: ['FORMS', 'TABLES']
+      ...this.analysisFeatures()
     });
 
-    const response = await this.client.send(analyzeCommand);
+    const response = await this.sendWithRetry(() => this.client.send(analyzeCommand), 'document');
 
     if (!response.Blocks) {
       throw new Error('No blocks found in document');
     }
 
-    return this.processBlocks(response.Blocks, 1);
+    const result = this.processBlocks(response.Blocks, 1);
+    reportDocumentPages(this.onProgress, { pages: buildPages(result.lines), keyValuePairs: result.keyValuePairs, tables: result.tables });
+    return result;
   }
 
-  private async convertPdfAndExtractEnhanced(pdfBuffer: Buffer): Promise<EnhancedTextractResult> {
-    const tempDir = os.tmpdir();
-    const tempPdfPath = path.join(tempDir, `temp_${Date.now()}_${Math.random().toString(36).substr(2, 9)}.pdf`);
-    const tempOutputDir = path.join(tempDir, `pdf_images_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`);
+  // PNG and JPEG images are one page; every frame of a multi-page TIFF is a page.
+  // `pageSelection` picks frames, e.g. "1-3,last"
+  async extractFromImage(imageBuffer: Buffer, filename: string, pageSelection?: string): Promise<EnhancedTextractResult> {
+    return withImageFrames(imageBuffer, filename, (images, totalPages) => this.analyzePageImages(images, totalPages), {
+      pageSelection,
+      preprocess: this.imageSettings.preprocess,
+      maxImageBytes: API_CONFIG.TEXTRACT.SYNC_MAX_FILE_SIZE
+    });
+  }
 
-    console.log(`Converting PDF to images using Python script: ${tempPdfPath}`);
+  private async convertPdfAndExtractEnhanced(pdfBuffer: Buffer, pages?: number[]): Promise<EnhancedTextractResult> {
+    return withPdfImages(pdfBuffer, (images, totalPages) => this.analyzePageImages(images, totalPages), this.imageOptions(pages));
+  }
 
-    try {
-      // Write PDF to temp file
-      fs.writeFileSync(tempPdfPath, pdfBuffer);
+  // Expense mode: AnalyzeExpense on each page image for vendor, totals, tax and line items.
+  // PDFs are always rasterized, so multi-page invoices need no S3 staging.
+  async extractExpensesFromPdf(pdfBuffer: Buffer, pages?: number[]): Promise<EnhancedTextractResult> {
+    return withPdfImages(pdfBuffer, (images, totalPages) => this.analyzePageImages(images, totalPages, this.analyzeExpenseImage.bind(this)), this.imageOptions(pages));
+  }
 
-      // Call Python script to convert PDF to images
-      const scriptPath = path.join(process.cwd(), 'scripts', 'pdf_to_images.py');
-      const conversionResult = await this.runPythonScript(scriptPath, [tempPdfPath, tempOutputDir]);
+  async extractExpensesFromImage(imageBuffer: Buffer, filename: string, pageSelection?: string): Promise<EnhancedTextractResult> {
+    return withImageFrames(imageBuffer, filename, (images, totalPages) => this.analyzePageImages(images, totalPages, this.analyzeExpenseImage.bind(this)), {
+      pageSelection,
+      preprocess: this.imageSettings.preprocess,
+      maxImageBytes: API_CONFIG.TEXTRACT.SYNC_MAX_FILE_SIZE
+    });
+  }
 
-      if (!conversionResult.success) {
-        throw new Error(`PDF conversion failed: ${conversionResult.error}`);
-      }
+  // Identity mode: AnalyzeID on each page image, e.g. a passport page or the front and back of a license
+  async extractIdentityFromPdf(pdfBuffer: Buffer, pages?: number[]): Promise<EnhancedTextractResult> {
+    return withPdfImages(pdfBuffer, (images, totalPages) => this.analyzePageImages(images, totalPages, this.analyzeIdentityImage.bind(this)), this.imageOptions(pages));
+  }
+
+  async extractIdentityFromImage(imageBuffer: Buffer, filename: string, pageSelection?: string): Promise<EnhancedTextractResult> {
+    return withImageFrames(imageBuffer, filename, (images, totalPages) => this.analyzePageImages(images, totalPages, this.analyzeIdentityImage.bind(this)), {
+      pageSelection,
+      preprocess: this.imageSettings.preprocess,
+      maxImageBytes: API_CONFIG.TEXTRACT.SYNC_MAX_FILE_SIZE
+    });
+  }
+
+  // `analyze` runs on each page image; AnalyzeDocument unless a mode passes its own.
+  // `totalPages` is the document's page count, which a page selection can make larger than `images`.
+  private async analyzePageImages(
+    images: PdfPageImage[],
+    totalPages: number,
+    analyze: (imageBuffer: Buffer, pageNumber: number) => Promise<EnhancedTextractResult> = this.analyzeImage.bind(this)
+  ): Promise<EnhancedTextractResult> {
+    const errors: string[] = [];
+    this.onProgress?.({ type: 'rasterized', pageNumbers: images.map(image => image.pageNumber) });
+
+    // Process pages through a bounded worker pool; results come back in page order
+    const pageResults = await mapWithConcurrency(images, this.pageConcurrency, async (image, i): Promise<PageResult | null> => {
+      const { pageNumber, imagePath, dpi, oversized } = image;
+      console.log(`Processing page ${i + 1}/${images.length}: ${path.basename(imagePath)}`);
+      
+      try {
+        const imageBuffer = fs.readFileSync(imagePath);
+        const imageSizeMB = imageBuffer.length / (1024 * 1024);
+        console.log(`  Page ${pageNumber} image size: ${imageSizeMB.toFixed(2)}MB${dpi ? ` at ${dpi} DPI` : ''}`);
+        
+        // Pages were already downscaled to fit; this only happens at the minimum size
+        if (oversized) {
+          this.reportPageError(errors, pageNumber, this.oversizedPageError(pageNumber, dpi));
+          return null;
+        }
+
+        // Analyze document with enhanced features
+        this.onProgress?.({ type: 'pageStarted', pageNumber });
+        const pageResult = await analyze(imageBuffer, pageNumber);
+        const render = toPageRenderInfo(image);
 
-      console.log(`PDF conversion completed - generated ${conversionResult.pages} pages`);
+        console.log(`  Extracted ${pageResult.text.trim().length} characters, ${pageResult.keyValuePairs.length} key-value pairs, ${pageResult.formFields.length} form fields, ${pageResult.tables.length} tables from page ${pageNumber}`);
+        this.reportPageDone(pageNumber, pageResult, render);
 
-      if (!conversionResult.image_paths || conversionResult.image_paths.length === 0) {
-        throw new Error('No images generated from PDF conversion');
+        return { pageNumber, render, result: pageResult };
+
+      } catch (pageError) {
+        console.error(`  Error processing page ${pageNumber}:`, pageError);
+        this.reportPageError(errors, pageNumber, `Error processing page ${pageNumber}: ${pageError instanceof Error ? pageError.message : 'Unknown error'}`);
+        return null;
       }
+    });
 
-      // Process each page and collect enhanced results
-      const allResults: EnhancedTextractResult[] = [];
-      const errors: string[] = [];
+    const completedPages = pageResults.filter((page): page is PageResult => page !== null);
 
-      for (let i = 0; i < conversionResult.image_paths.length; i++) {
-        const imagePath = conversionResult.image_paths[i];
-        
-        console.log(`Processing page ${i + 1}/${conversionResult.image_paths.length}: ${path.basename(imagePath)}`);
-        
-        try {
-          const imageBuffer = fs.readFileSync(imagePath);
+    if (completedPages.length === 0) {
+      const errorSummary = errors.length > 0 ? ` Errors: ${errors.join('; ')}` : '';
+      throw new Error(`No data could be extracted from any page.${errorSummary}`);
+    }
 
-          // Check image size (Textract has 10MB limit)
-          const imageSizeMB = imageBuffer.length / (1024 * 1024);
-          console.log(`  Image size: ${imageSizeMB.toFixed(2)}MB`);
-          
-          if (imageSizeMB > 10) {
-            errors.push(`Page ${i + 1} skipped: image size (${imageSizeMB.toFixed(1)}MB) exceeds 10MB limit`);
-            continue;
-          }
+    const merged = this.mergeResults(
+      completedPages.map(page => page.result),
+      completedPages.map(page => page.pageNumber),
+      totalPages
+    );
 
-          // Analyze document with enhanced features
-          const analyzeCommand = new AnalyzeDocumentCommand({
-            Document: {
-              Bytes: imageBuffer
-            },
-            FeatureTypes: ['FORMS', 'TABLES']
-          });
+    return {
+      ...merged,
+      pageRenders: completedPages.map(page => page.render)
+    };
+  }
 
-          const response = await this.client.send(analyzeCommand);
+  // Rasterization settings for page images sent to the synchronous API
+  private imageOptions(pages?: number[]): PdfImageOptions {
+    return {
+      pages,
+      ...this.imageSettings,
+      maxImageBytes: API_CONFIG.TEXTRACT.SYNC_MAX_FILE_SIZE
+    };
+  }
 
-          if (!response.Blocks) {
-            errors.push(`No blocks found in page ${i + 1}`);
-            continue;
-          }
+  private reportPageDone(pageNumber: number, pageResult: EnhancedTextractResult, render?: PageRenderInfo): void {
+    this.onProgress?.(buildPageDoneEvent(pageNumber, pageResult.lines, pageResult.keyValuePairs, pageResult.tables, render));
+  }
 
-          // Process blocks for this page
-          const pageResult = this.processBlocks(response.Blocks, i + 1);
-          allResults.push(pageResult);
+  private reportPageError(errors: string[], pageNumber: number, message: string): void {
+    errors.push(message);
+    this.onProgress?.({ type: 'pageFailed', pageNumber, error: message });
+  }
 
-          console.log(`  Extracted ${pageResult.text.trim().length} characters, ${pageResult.keyValuePairs.length} key-value pairs, ${pageResult.formFields.length} form fields, ${pageResult.tables.length} tables from page ${i + 1}`);
+  private oversizedPageError(pageNumber: number, dpi?: number): string {
+    const limitMB = API_CONFIG.TEXTRACT.SYNC_MAX_FILE_SIZE / (1024 * 1024);
+    return `Page ${pageNumber} skipped: image still exceeds the ${limitMB}MB limit ${dpi ? `at ${dpi} DPI` : 'after downscaling'}`;
+  }
 
-        } catch (pageError) {
-          console.error(`  Error processing page ${i + 1}:`, pageError);
-          errors.push(`Error processing page ${i + 1}: ${pageError instanceof Error ? pageError.message : 'Unknown error'}`);
-        }
+  private async analyzeImage(imageBuffer: Buffer, pageNumber: number): Promise<EnhancedTextractResult> {
+    const analyzeCommand = new AnalyzeDocumentCommand({
+      Document: {
+        Bytes: imageBuffer
+      },
+      ...this.analysisFeatures()
+    });
+
+    const response = await this.sendWithRetry(() => this.client.send(analyzeCommand), `page ${pageNumber}`);
+
+    if (!response.Blocks) {
+      throw new Error(`No blocks found in page ${pageNumber}`);
+    }
+
+    // Process blocks for this page
+    return this.processBlocks(response.Blocks, pageNumber);
+  }
+
+  private async analyzeExpenseImage(imageBuffer: Buffer, pageNumber: number): Promise<EnhancedTextractResult> {
+    const analyzeCommand = new AnalyzeExpenseCommand({
+      Document: {
+        Bytes: imageBuffer
       }
+    });
 
-      if (allResults.length === 0) {
-        const errorSummary = errors.length > 0 ? ` Errors: ${errors.join('; ')}` : '';
-        throw new Error(`No data could be extracted from any page.${errorSummary}`);
+    const response = await this.sendWithRetry(() => this.client.send(analyzeCommand), `page ${pageNumber}`);
+    const expenseDocuments = response.ExpenseDocuments || [];
+
+    // Each expense document carries the LINE and WORD blocks it covers; receipts on one page can share them
+    const blocks = new Map<string, Block>();
+    expenseDocuments.forEach(expenseDocument => {
+      expenseDocument.Blocks?.forEach(block => blocks.set(block.Id!, block));
+    });
+
+    console.log(`  Found ${expenseDocuments.length} expense document(s) on page ${pageNumber}`);
+
+    return {
+      ...this.processBlocks(Array.from(blocks.values()), pageNumber),
+      expenses: expenseDocuments.map(expenseDocument => this.toExpenseDocument(expenseDocument, pageNumber))
+    };
+  }
+
+  private toExpenseDocument(expenseDocument: TextractExpenseDocument, pageNumber: number): ExpenseDocument {
+    const summaryFields = (expenseDocument.SummaryFields || []).map(field => this.toExpenseField(field, pageNumber));
+
+    // Keep the most confident value of each summary type
+    const summary: ExpenseSummary = {};
+    const summaryConfidence = new Map<keyof ExpenseSummary, number>();
+    summaryFields.forEach(field => {
+      const key = EXPENSE_SUMMARY_FIELDS[field.type];
+      if (key && field.value && field.confidence > (summaryConfidence.get(key) ?? -1)) {
+        summary[key] = field.value;
+        summaryConfidence.set(key, field.confidence);
       }
+    });
+    summary.currency = (summaryFields.find(field => field.type === 'TOTAL' && field.currency) ||
+      summaryFields.find(field => field.currency))?.currency;
 
-      return this.mergeResults(allResults);
+    return {
+      index: expenseDocument.ExpenseIndex || 1,
+      pageNumber,
+      summary,
+      summaryFields,
+      lineItemGroups: (expenseDocument.LineItemGroups || []).map(group => ({
+        index: group.LineItemGroupIndex || 1,
+        lineItems: (group.LineItems || []).map(lineItem => {
+          const fields = (lineItem.LineItemExpenseFields || []).map(field => this.toExpenseField(field, pageNumber));
+          return {
+            // EXPENSE_ROW is the whole row, not a column
+            fields: fields.filter(field => field.type !== 'EXPENSE_ROW'),
+            row: fields.find(field => field.type === 'EXPENSE_ROW')?.value
+          };
+        })
+      }))
+    };
+  }
 
-    } finally {
-      // Clean up temp files
-      this.cleanupTempFiles(tempPdfPath, tempOutputDir);
-    }
+  private toExpenseField(field: TextractExpenseField, pageNumber: number): ExpenseField {
+    const groups = (field.GroupProperties || []).flatMap(group => group.Types || []);
+
+    return {
+      type: field.Type?.Text || 'OTHER',
+      label: field.LabelDetection?.Text,
+      value: field.ValueDetection?.Text || '',
+      confidence: field.ValueDetection?.Confidence || 0,
+      pageNumber,
+      currency: field.Currency?.Code,
+      groups: groups.length > 0 ? groups : undefined,
+      boundingBox: field.ValueDetection ? this.toBoundingBox(field.ValueDetection) : undefined
+    };
   }
 
-  private async convertPdfAndExtract(pdfBuffer: Buffer): Promise<string> {
-    const tempDir = os.tmpdir();
-    const tempPdfPath = path.join(tempDir, `temp_${Date.now()}_${Math.random().toString(36).substr(2, 9)}.pdf`);
-    const tempOutputDir = path.join(tempDir, `pdf_images_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`);
+  private async analyzeIdentityImage(imageBuffer: Buffer, pageNumber: number): Promise<EnhancedTextractResult> {
+    const analyzeCommand = new AnalyzeIDCommand({
+      DocumentPages: [{ Bytes: imageBuffer }]
+    });
 
-    console.log(`Converting PDF to images using Python script: ${tempPdfPath}`);
+    const response = await this.sendWithRetry(() => this.client.send(analyzeCommand), `page ${pageNumber}`);
+    const identityDocuments = response.IdentityDocuments || [];
 
-    try {
-      // Write PDF to temp file
-      fs.writeFileSync(tempPdfPath, pdfBuffer);
+    console.log(`  Found ${identityDocuments.length} identity document(s) on page ${pageNumber}`);
 
-      // Call Python script to convert PDF to images
-      const scriptPath = path.join(process.cwd(), 'scripts', 'pdf_to_images.py');
-      const conversionResult = await this.runPythonScript(scriptPath, [tempPdfPath, tempOutputDir]);
+    return {
+      ...this.processBlocks(identityDocuments.flatMap(identityDocument => identityDocument.Blocks || []), pageNumber),
+      identityDocuments: identityDocuments.map(identityDocument => this.toIdentityDocument(identityDocument, pageNumber))
+    };
+  }
 
-      if (!conversionResult.success) {
-        throw new Error(`PDF conversion failed: ${conversionResult.error}`);
+  private toIdentityDocument(identityDocument: TextractIdentityDocument, pageNumber: number): IdentityDocument {
+    // AnalyzeID returns every field type it knows; the ones not on the document have no value
+    const fields = (identityDocument.IdentityDocumentFields || [])
+      .map(field => this.toIdentityField(field))
+      .filter(field => field.value);
+
+    const summary: IdentitySummary = {};
+    fields.forEach(field => {
+      const key = IDENTITY_SUMMARY_FIELDS[field.type];
+      if (key && field.confidence > (summary[key]?.confidence ?? -1)) {
+        summary[key] = field;
       }
+    });
 
-      console.log(`PDF conversion completed - generated ${conversionResult.pages} pages`);
+    // The name is as confident as its least confident part
+    const nameParts = IDENTITY_NAME_FIELDS
+      .map(type => fields.find(field => field.type === type))
+      .filter((field): field is IdentityField => field !== undefined);
+    if (nameParts.length > 0) {
+      summary.name = {
+        type: 'NAME',
+        value: nameParts.map(field => field.value).join(' '),
+        confidence: Math.min(...nameParts.map(field => field.confidence))
+      };
+    }
 
-      if (!conversionResult.image_paths || conversionResult.image_paths.length === 0) {
-        throw new Error('No images generated from PDF conversion');
-      }
+    return {
+      index: identityDocument.DocumentIndex || 1,
+      pageNumber,
+      documentType: fields.find(field => field.type === 'ID_TYPE')?.value,
+      summary,
+      fields
+    };
+  }
+
+  private toIdentityField(field: TextractIdentityDocumentField): IdentityField {
+    const normalized = field.ValueDetection?.NormalizedValue;
+    // Dates are normalized to a timestamp such as 2031-08-12T00:00:00
+    const date = normalized?.ValueType === 'DATE' ? normalized.Value?.match(/^\d{4}-\d{2}-\d{2}/)?.[0] : undefined;
 
-      // Process each page and collect results
-      const allPageTexts: string[] = [];
+    return {
+      type: field.Type?.Text || 'OTHER',
+      value: field.ValueDetection?.Text?.trim() || '',
+      confidence: field.ValueDetection?.Confidence || 0,
+      date
+    };
+  }
+
+  private buildTextLayerResult(lines: PdfTextLayerLine[], pageNumber: number): EnhancedTextractResult {
+    return {
+      text: lines.map(line => line.text).join('\n'),
+      lines: lines.map(line => ({
+        text: line.text,
+        confidence: 100,
+        pageNumber,
+        boundingBox: line.boundingBox,
+        words: line.words.map(word => ({ ...word, confidence: 100 }))
+      })),
+      keyValuePairs: [],
+      formFields: [],
+      tables: [],
+      totalPages: pageNumber
+    };
+  }
+
+  private async convertPdfAndExtract(pdfBuffer: Buffer): Promise<string> {
+    return withPdfImages(pdfBuffer, async (images) => {
       const errors: string[] = [];
 
-      for (let i = 0; i < conversionResult.image_paths.length; i++) {
-        const imagePath = conversionResult.image_paths[i];
-        
-        console.log(`Processing page ${i + 1}/${conversionResult.image_paths.length}: ${path.basename(imagePath)}`);
+      // Process pages through a bounded worker pool; texts come back in page order
+      const pageTexts = await mapWithConcurrency(images, this.pageConcurrency, async ({ pageNumber, imagePath, dpi, oversized }, i): Promise<string | null> => {
+        console.log(`Processing page ${i + 1}/${images.length}: ${path.basename(imagePath)}`);
         
         try {
           const imageBuffer = fs.readFileSync(imagePath);
-
-          // Check image size (Textract has 10MB limit)
           const imageSizeMB = imageBuffer.length / (1024 * 1024);
-          console.log(`  Image size: ${imageSizeMB.toFixed(2)}MB`);
+          console.log(`  Page ${pageNumber} image size: ${imageSizeMB.toFixed(2)}MB at ${dpi} DPI`);
           
-          if (imageSizeMB > 10) {
-            errors.push(`Page ${i + 1} skipped: image size (${imageSizeMB.toFixed(1)}MB) exceeds 10MB limit`);
-            continue;
+          if (oversized) {
+            errors.push(this.oversizedPageError(pageNumber, dpi));
+            return null;
           }
 
           // Extract text from the converted image
@@ -345,11 +769,11 @@ export class TextractService {
             }
           });
 
-          const response = await this.client.send(detectCommand);
+          const response = await this.sendWithRetry(() => this.client.send(detectCommand), `page ${pageNumber}`);
 
           if (!response.Blocks) {
-            errors.push(`No text blocks found in page ${i + 1}`);
-            continue;
+            errors.push(`No text blocks found in page ${pageNumber}`);
+            return null;
           }
 
           // Extract text from this page
@@ -359,17 +783,18 @@ export class TextractService {
               .filter(text => text)
               .join('\n');
 
-          console.log(`  Extracted ${pageText.trim().length} characters from page ${i + 1}`);
+          console.log(`  Extracted ${pageText.trim().length} characters from page ${pageNumber}`);
 
-          if (pageText.trim()) {
-            allPageTexts.push(`=== Page ${i + 1} ===\n${pageText}`);
-          }
+          return pageText.trim() ? `=== Page ${pageNumber} ===\n${pageText}` : null;
 
         } catch (pageError) {
-          console.error(`  Error processing page ${i + 1}:`, pageError);
-          errors.push(`Error processing page ${i + 1}: ${pageError instanceof Error ? pageError.message : 'Unknown error'}`);
+          console.error(`  Error processing page ${pageNumber}:`, pageError);
+          errors.push(`Error processing page ${pageNumber}: ${pageError instanceof Error ? pageError.message : 'Unknown error'}`);
+          return null;
         }
-      }
+      });
+
+      const allPageTexts = pageTexts.filter((text): text is string => text !== null);
 
       if (allPageTexts.length === 0) {
         const errorSummary = errors.length > 0 ? ` Errors: ${errors.join('; ')}` : '';
@@ -377,95 +802,85 @@ export class TextractService {
       }
 
       return allPageTexts.join('\n\n');
-
-    } finally {
-      // Clean up temp files
-      this.cleanupTempFiles(tempPdfPath, tempOutputDir);
-    }
+    }, this.imageOptions());
   }
 
-  private async runPythonScript(scriptPath: string, args: string[]): Promise<any> {
-    return new Promise((resolve, reject) => {
-      // Use Python from virtual environment if available
-      const venvPython = path.join(process.cwd(), 'scripts', 'venv', 'bin', 'python');
-      const pythonCmd = fs.existsSync(venvPython) ? venvPython : 'python3';
-      
-      const pythonProcess = spawn(pythonCmd, [scriptPath, ...args]);
-      let output = '';
-      let errorOutput = '';
-
-      pythonProcess.stdout.on('data', (data) => {
-        output += data.toString();
-      });
-
-      pythonProcess.stderr.on('data', (data) => {
-        errorOutput += data.toString();
-      });
-
-      pythonProcess.on('close', (code) => {
-        if (code !== 0) {
-          reject(new Error(`Python script failed with code ${code}: ${errorOutput}`));
-          return;
-        }
-
-        try {
-          const result = JSON.parse(output.trim());
-          resolve(result);
-        } catch (parseError) {
-          reject(new Error(`Failed to parse Python script output: ${output}`));
-        }
-      });
-
-      pythonProcess.on('error', (error) => {
-        reject(new Error(`Failed to spawn Python process: ${error.message}`));
-      });
+  // Retries throttling and transient failures with exponential backoff and jitter
+  private async sendWithRetry<T>(operation: () => Promise<T>, label: string): Promise<T> {
+    return withRetry(operation, {
+      maxAttempts: API_CONFIG.TEXTRACT.RETRY_MAX_ATTEMPTS,
+      baseDelayMs: API_CONFIG.TEXTRACT.RETRY_BASE_DELAY_MS,
+      maxDelayMs: API_CONFIG.TEXTRACT.RETRY_MAX_DELAY_MS,
+      isRetryable: (error) => this.isRetryableError(error),
+      onRetry: (error, attempt, delayMs) => {
+        const errorName = (error as { name?: string })?.name || 'Error';
+        console.warn(`  ${errorName} on ${label}, retrying in ${delayMs}ms (attempt ${attempt + 1}/${API_CONFIG.TEXTRACT.RETRY_MAX_ATTEMPTS})`);
+      }
     });
   }
 
+  // QUERIES is only requested when there are questions; Textract otherwise rejects an empty QueriesConfig
+  private analysisFeatures(): { FeatureTypes: FeatureType[]; QueriesConfig?: QueriesConfig } {
+    const featureTypes: FeatureType[] = ['FORMS', 'TABLES', 'LAYOUT', 'SIGNATURES'];
+    if (this.queries.length === 0) {
+      return { FeatureTypes: featureTypes };
+    }
 
-
-  private cleanupTempFiles(tempPdfPath: string, tempOutputDir: string): void {
-    try {
-      // Remove PDF file
-      if (fs.existsSync(tempPdfPath)) {
-        fs.unlinkSync(tempPdfPath);
-      }
-      
-      // Remove image files and directory
-      if (fs.existsSync(tempOutputDir)) {
-        const files = fs.readdirSync(tempOutputDir);
-        files.forEach(file => {
-          try {
-            fs.unlinkSync(path.join(tempOutputDir, file));
-          } catch {
-            // Continue cleanup even if individual files fail
-          }
-        });
-        
-        try {
-          fs.rmdirSync(tempOutputDir);
-        } catch {
-          // Directory might not be empty, ignore
-        }
+    return {
+      FeatureTypes: [...featureTypes, 'QUERIES'],
+      QueriesConfig: {
+        // Without Pages, Textract only answers on the first page
+        Queries: this.queries.map(query => ({ Text: query.text, Alias: query.alias, Pages: ['*'] }))
       }
-    } catch {
-      // Silently fail cleanup to avoid masking main errors
-    }
+    };
+  }
+
+  private isRetryableError(error: unknown): boolean {
+    const errorObj = error as { name?: string; code?: string; $retryable?: unknown; $metadata?: { httpStatusCode?: number } };
+    const retryableNames = [
+      'ThrottlingException',
+      'ProvisionedThroughputExceededException',
+      'LimitExceededException',
+      'InternalServerError',
+      'ServiceUnavailableException',
+      'RequestTimeout',
+      'TimeoutError'
+    ];
+    const retryableCodes = ['ECONNRESET', 'ETIMEDOUT', 'EPIPE', 'EAI_AGAIN'];
+
+    return retryableNames.includes(errorObj?.name || '') ||
+        retryableCodes.includes(errorObj?.code || '') ||
+        Boolean(errorObj?.$retryable) ||
+        (errorObj?.$metadata?.httpStatusCode || 0) >= 500;
   }
 
-  private processBlocks(blocks: any[], pageNumber: number): EnhancedTextractResult {
+  private processBlocks(blocks: Block[], pageNumber: number): EnhancedTextractResult {
     const text: string[] = [];
+    const lines: DocumentLine[] = [];
     const keyValuePairs: KeyValuePair[] = [];
     const tables: TableData[] = [];
 
     // Create lookup maps for relationships
-    const blockMap = new Map();
-    blocks.forEach(block => blockMap.set(block.Id, block));
+    const blockMap = new Map<string, Block>();
+    blocks.forEach(block => blockMap.set(block.Id!, block));
 
-    // Extract text lines
+    // Extract text lines with their words
     blocks.filter(block => block.BlockType === 'LINE').forEach(block => {
       if (block.Text) {
         text.push(block.Text);
+        lines.push({
+          text: block.Text,
+          confidence: block.Confidence || 0,
+          pageNumber,
+          boundingBox: this.toBoundingBox(block),
+          words: this.getChildBlocks(block, blockMap)
+            .filter(child => child.BlockType === 'WORD')
+            .map(word => ({
+              text: word.Text || '',
+              confidence: word.Confidence || 0,
+              boundingBox: this.toBoundingBox(word)
+            }))
+        });
       }
     });
 
@@ -473,16 +888,20 @@ export class TextractService {
     blocks.filter(block => block.BlockType === 'KEY_VALUE_SET' && block.EntityTypes?.includes('KEY')).forEach(keyBlock => {
       const keyText = this.getTextFromBlock(keyBlock, blockMap);
       let valueText = '';
+      let valueBoundingBox: BoundingBox | undefined;
+      let selectionStatus: SelectionStatus | undefined;
       let confidence = keyBlock.Confidence || 0;
 
       // Find corresponding value block
       if (keyBlock.Relationships) {
-        const valueRelation = keyBlock.Relationships.find((rel: any) => rel.Type === 'VALUE');
+        const valueRelation = keyBlock.Relationships.find(rel => rel.Type === 'VALUE');
         if (valueRelation && valueRelation.Ids) {
           const valueBlockId = valueRelation.Ids[0];
           const valueBlock = blockMap.get(valueBlockId);
           if (valueBlock) {
             valueText = this.getTextFromBlock(valueBlock, blockMap);
+            valueBoundingBox = this.toBoundingBox(valueBlock);
+            selectionStatus = this.getSelectionStatus(valueBlock, blockMap);
             confidence = Math.min(confidence, valueBlock.Confidence || 0);
           }
         }
@@ -493,11 +912,31 @@ export class TextractService {
           key: keyText,
           value: valueText,
           confidence: confidence,
-          pageNumber
+          pageNumber,
+          keyBoundingBox: this.toBoundingBox(keyBlock),
+          valueBoundingBox,
+          selectionStatus
         });
       }
     });
 
+    // Extract query answers; a query Textract could not answer has no ANSWER relationship
+    const queryAnswers: QueryAnswer[] = [];
+    blocks.filter(block => block.BlockType === 'QUERY').forEach(queryBlock => {
+      this.getRelatedBlocks(queryBlock, blockMap, 'ANSWER').forEach(answerBlock => {
+        queryAnswers.push({
+          query: queryBlock.Query?.Text || '',
+          alias: queryBlock.Query?.Alias,
+          answer: answerBlock.Text || '',
+          confidence: answerBlock.Confidence || 0,
+          pageNumber,
+          boundingBox: this.toBoundingBox(answerBlock)
+        });
+      });
+    });
+
+    const layout = this.extractLayout(blocks, blockMap, pageNumber);
+
     // Note: formFields and keyValuePairs are the same in AWS Textract
     // The FORMS feature extracts key-value pairs, so we don't need separate processing
 
@@ -506,100 +945,296 @@ export class TextractService {
       const tableData = this.extractTableData(tableBlock, blockMap);
       if (tableData.rows.length > 0) {
         tables.push({
-          rows: tableData.rows,
+          ...tableData,
           confidence: tableBlock.Confidence || 0,
-          pageNumber
+          pageNumber,
+          boundingBox: this.toBoundingBox(tableBlock)
         });
       }
     });
 
+    // LINE blocks come in API order, which scrambles multi-column pages; layout follows reading order
+    const hasLayout = layout.some(element => element.type !== 'signature');
+
     return {
-      text: text.join('\n'),
+      text: hasLayout ? layoutToMarkdown(layout) : text.join('\n'),
+      lines,
       keyValuePairs,
       formFields: [], // Empty since it's the same as keyValuePairs
       tables,
+      queryAnswers,
+      layout,
       totalPages: pageNumber
     };
   }
 
-  private getTextFromBlock(block: any, blockMap: Map<string, any>): string {
+  // LAYOUT_* blocks come back in reading order and own the page's LINE blocks
+  private extractLayout(blocks: Block[], blockMap: Map<string, Block>, pageNumber: number): LayoutElement[] {
+    const layout: LayoutElement[] = [];
+    const coveredLineIds = new Set<string>();
+
+    const getLineTexts = (block: Block): string[] => this.getChildBlocks(block, blockMap)
+      .filter(child => child.BlockType === 'LINE')
+      .map(line => {
+        coveredLineIds.add(line.Id!);
+        return line.Text || '';
+      });
+
+    // List items are LAYOUT_TEXT children of their list, not elements of their own
+    const listItemIds = new Set(blocks
+      .filter(block => block.BlockType === 'LAYOUT_LIST')
+      .flatMap(list => this.getChildBlocks(list, blockMap).map(item => item.Id!)));
+
+    blocks.forEach(block => {
+      const type = LAYOUT_BLOCK_TYPES[block.BlockType || ''];
+      if (!type || listItemIds.has(block.Id!)) {
+        return;
+      }
+
+      const element: LayoutElement = {
+        type,
+        text: '',
+        confidence: block.Confidence || 0,
+        pageNumber,
+        boundingBox: this.toBoundingBox(block)
+      };
+
+      if (type === 'list') {
+        element.items = this.getChildBlocks(block, blockMap)
+          .map(item => getLineTexts(item).join(' '))
+          .filter(item => item);
+        element.text = element.items.join('\n');
+      } else {
+        // Wrapped paragraph lines are joined back into one; tabular blocks keep their lines
+        element.text = getLineTexts(block).join(type === 'table' || type === 'keyValue' ? '\n' : ' ');
+      }
+
+      layout.push(element);
+    });
+
+    if (layout.length > 0) {
+      // Keep any line the layout missed rather than dropping its text
+      const uncovered = blocks.filter(block => block.BlockType === 'LINE' && block.Text && !coveredLineIds.has(block.Id!));
+      if (uncovered.length > 0) {
+        layout.push({
+          type: 'text',
+          text: uncovered.map(line => line.Text).join(' '),
+          confidence: Math.min(...uncovered.map(line => line.Confidence || 0)),
+          pageNumber,
+          boundingBox: unionBoundingBoxes(uncovered.map(line => this.toBoundingBox(line)))
+        });
+      }
+    }
+
+    blocks.filter(block => block.BlockType === 'SIGNATURE').forEach(signatureBlock => {
+      this.insertByPosition(layout, {
+        type: 'signature',
+        text: '',
+        confidence: signatureBlock.Confidence || 0,
+        pageNumber,
+        boundingBox: this.toBoundingBox(signatureBlock)
+      });
+    });
+
+    return layout;
+  }
+
+  // Signatures are not part of the layout's reading order: place each one after the
+  // closest element above it in the same column, or at the end of the page
+  private insertByPosition(layout: LayoutElement[], element: LayoutElement): void {
+    const box = element.boundingBox;
+    let insertAt = layout.length;
+
+    if (box) {
+      let closestTop = -1;
+      layout.forEach((candidate, index) => {
+        const candidateBox = candidate.boundingBox;
+        const overlapsColumn = candidateBox &&
+          candidateBox.left < box.left + box.width &&
+          box.left < candidateBox.left + candidateBox.width;
+        if (candidateBox && overlapsColumn && candidateBox.top <= box.top && candidateBox.top > closestTop) {
+          closestTop = candidateBox.top;
+          insertAt = index + 1;
+        }
+      });
+    }
+
+    layout.splice(insertAt, 0, element);
+  }
+
+  // Textract geometry is already normalized to the page, top-left origin
+  private toBoundingBox(block: Pick<Block, 'Geometry'>): BoundingBox | undefined {
+    const box = block.Geometry?.BoundingBox;
+    if (!box) {
+      return undefined;
+    }
+
+    return {
+      left: box.Left || 0,
+      top: box.Top || 0,
+      width: box.Width || 0,
+      height: box.Height || 0
+    };
+  }
+
+  private getChildBlocks(block: Block, blockMap: Map<string, Block>): Block[] {
+    return this.getRelatedBlocks(block, blockMap, 'CHILD');
+  }
+
+  private getRelatedBlocks(block: Block, blockMap: Map<string, Block>, type: RelationshipType): Block[] {
+    return (block.Relationships || [])
+      .filter(rel => rel.Type === type)
+      .flatMap(rel => rel.Ids || [])
+      .map(relatedId => blockMap.get(relatedId))
+      .filter((related): related is Block => related !== undefined);
+  }
+
+  private getTextFromBlock(block: Block, blockMap: Map<string, Block>): string {
     if (block.Text) {
       return block.Text;
     }
 
-    if (block.Relationships) {
-      const childRelation = block.Relationships.find((rel: any) => rel.Type === 'CHILD');
-      if (childRelation && childRelation.Ids) {
-        const childTexts: string[] = [];
-        childRelation.Ids.forEach((childId: string) => {
-          const childBlock = blockMap.get(childId);
-          if (childBlock && childBlock.Text) {
-            childTexts.push(childBlock.Text);
-          }
-        });
-        return childTexts.join(' ');
-      }
+    return this.getChildBlocks(block, blockMap)
+      .map(child => child.Text)
+      .filter(childText => childText)
+      .join(' ');
+  }
+
+  // Checkboxes are SELECTION_ELEMENT children, which carry no text
+  private getSelectionStatus(block: Block, blockMap: Map<string, Block>): SelectionStatus | undefined {
+    const selection = this.getChildBlocks(block, blockMap).find(child => child.BlockType === 'SELECTION_ELEMENT');
+    if (!selection?.SelectionStatus) {
+      return undefined;
     }
 
-    return '';
+    return selection.SelectionStatus === 'SELECTED' ? 'selected' : 'not_selected';
   }
 
-  private extractTableData(tableBlock: any, blockMap: Map<string, any>): { rows: string[][] } {
+  private extractTableData(
+    tableBlock: Block,
+    blockMap: Map<string, Block>
+  ): Pick<TableData, 'rows' | 'cells' | 'headerRowCount' | 'title' | 'footer'> {
     const rows: string[][] = [];
-    const cellMap = new Map<string, { row: number, col: number, text: string }>();
+    const cellMap = new Map<string, TableCell>();
 
     // Find all cells in the table
-    if (tableBlock.Relationships) {
-      const childRelation = tableBlock.Relationships.find((rel: any) => rel.Type === 'CHILD');
-      if (childRelation && childRelation.Ids) {
-        childRelation.Ids.forEach((cellId: string) => {
-          const cellBlock = blockMap.get(cellId);
-          if (cellBlock && cellBlock.BlockType === 'CELL') {
-            const rowIndex = (cellBlock.RowIndex || 1) - 1;
-            const colIndex = (cellBlock.ColumnIndex || 1) - 1;
-            const cellText = this.getTextFromBlock(cellBlock, blockMap);
-            
-            cellMap.set(`${rowIndex}-${colIndex}`, {
-              row: rowIndex,
-              col: colIndex,
-              text: cellText
-            });
-          }
-        });
-      }
+    this.getChildBlocks(tableBlock, blockMap)
+      .filter(cellBlock => cellBlock.BlockType === 'CELL')
+      .forEach(cellBlock => {
+        const cell = this.toTableCell(cellBlock, this.getTextFromBlock(cellBlock, blockMap));
+        cell.selectionStatus = this.getSelectionStatus(cellBlock, blockMap);
+        cellMap.set(`${cell.rowIndex}-${cell.columnIndex}`, cell);
+      });
+
+    // A merged cell replaces the cells it covers; its text is theirs in reading order
+    this.getRelatedBlocks(tableBlock, blockMap, 'MERGED_CELL').forEach(mergedBlock => {
+      const covered = this.getChildBlocks(mergedBlock, blockMap)
+        .map(cellBlock => cellMap.get(`${(cellBlock.RowIndex || 1) - 1}-${(cellBlock.ColumnIndex || 1) - 1}`))
+        .filter((cell): cell is TableCell => cell !== undefined);
+      const text = covered.map(cell => cell.text).filter(cellText => cellText).join(' ');
+      const merged = this.toTableCell(mergedBlock, text);
+      merged.isHeader = merged.isHeader || covered.some(cell => cell.isHeader);
+      merged.selectionStatus = covered.find(cell => cell.selectionStatus)?.selectionStatus;
+
+      covered.forEach(cell => cellMap.delete(`${cell.rowIndex}-${cell.columnIndex}`));
+      cellMap.set(`${merged.rowIndex}-${merged.columnIndex}`, merged);
+    });
+
+    const cells = Array.from(cellMap.values())
+      .sort((a, b) => a.rowIndex - b.rowIndex || a.columnIndex - b.columnIndex);
+    if (cells.length === 0) {
+      return { rows, cells };
     }
 
-    // Convert cell map to 2D array
-    const maxRow = Math.max(...Array.from(cellMap.values()).map(cell => cell.row)) + 1;
-    const maxCol = Math.max(...Array.from(cellMap.values()).map(cell => cell.col)) + 1;
+    // Convert cells to a 2D array; merged cells only fill their top-left position
+    const maxRow = Math.max(...cells.map(cell => cell.rowIndex + (cell.rowSpan || 1)));
+    const maxCol = Math.max(...cells.map(cell => cell.columnIndex + (cell.columnSpan || 1)));
 
     for (let row = 0; row < maxRow; row++) {
-      const rowData: string[] = [];
-      for (let col = 0; col < maxCol; col++) {
-        const cell = cellMap.get(`${row}-${col}`);
-        rowData.push(cell ? cell.text : '');
+      rows.push(new Array<string>(maxCol).fill(''));
+    }
+    cells.forEach(cell => {
+      rows[cell.rowIndex][cell.columnIndex] = withSelectionMark(cell.text, cell.selectionStatus);
+    });
+
+    // Header rows are the leading rows covered by COLUMN_HEADER cells
+    const headerRows = new Set<number>();
+    cells.filter(cell => cell.isHeader).forEach(cell => {
+      for (let row = cell.rowIndex; row < cell.rowIndex + (cell.rowSpan || 1); row++) {
+        headerRows.add(row);
       }
-      rows.push(rowData);
+    });
+    let headerRowCount = 0;
+    while (headerRows.has(headerRowCount)) {
+      headerRowCount++;
     }
 
-    return { rows };
+    const title = this.getRelatedBlocks(tableBlock, blockMap, 'TABLE_TITLE')
+      .map(block => this.getTextFromBlock(block, blockMap))
+      .join(' ');
+    const footer = this.getRelatedBlocks(tableBlock, blockMap, 'TABLE_FOOTER')
+      .map(block => this.getTextFromBlock(block, blockMap))
+      .join(' ');
+
+    return {
+      rows,
+      cells,
+      headerRowCount,
+      title: title || undefined,
+      footer: footer || undefined
+    };
+  }
+
+  private toTableCell(cellBlock: Block, text: string): TableCell {
+    const rowSpan = cellBlock.RowSpan || 1;
+    const columnSpan = cellBlock.ColumnSpan || 1;
+
+    return {
+      rowIndex: (cellBlock.RowIndex || 1) - 1,
+      columnIndex: (cellBlock.ColumnIndex || 1) - 1,
+      text,
+      confidence: cellBlock.Confidence || 0,
+      boundingBox: this.toBoundingBox(cellBlock),
+      rowSpan: rowSpan > 1 ? rowSpan : undefined,
+      columnSpan: columnSpan > 1 ? columnSpan : undefined,
+      isHeader: cellBlock.EntityTypes?.includes('COLUMN_HEADER') || undefined
+    };
   }
 
-  private mergeResults(results: EnhancedTextractResult[]): EnhancedTextractResult {
+  private mergeResults(
+    results: EnhancedTextractResult[],
+    pageNumbers: number[],
+    // Pages in the document, not only the processed ones
+    totalPages: number
+  ): EnhancedTextractResult {
     const mergedText = results.map((result, index) => 
-      `=== Page ${index + 1} ===\n${result.text}`
+      `=== Page ${pageNumbers[index]} ===\n${result.text}`
     ).join('\n\n');
 
+    const allLines = results.flatMap(result => result.lines);
     const allKeyValuePairs = results.flatMap(result => result.keyValuePairs);
     const allFormFields = results.flatMap(result => result.formFields);
     const allTables = results.flatMap(result => result.tables);
-    const totalPages = results.length;
+    const allQueryAnswers = results.flatMap(result => result.queryAnswers || []);
+    const allLayout = results.flatMap(result => result.layout || []);
+    // Expense documents are numbered per page by Textract; renumber them across the document
+    const allExpenses = results
+      .flatMap(result => result.expenses || [])
+      .map((expense, index) => ({ ...expense, index: index + 1 }));
+    const allIdentityDocuments = results
+      .flatMap(result => result.identityDocuments || [])
+      .map((identityDocument, index) => ({ ...identityDocument, index: index + 1 }));
 
     return {
       text: mergedText,
+      lines: allLines,
       keyValuePairs: allKeyValuePairs,
       formFields: allFormFields,
       tables: allTables,
+      queryAnswers: allQueryAnswers,
+      layout: allLayout,
+      expenses: allExpenses,
+      identityDocuments: allIdentityDocuments,
       totalPages
     };
   }